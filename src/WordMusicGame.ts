@@ -1,40 +1,123 @@
 import { css, html, LitElement } from 'lit';
 import { customElement, query, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
 import { styleMap } from 'lit/directives/style-map.js';
 import {
-    GoogleGenAI,
     type LiveMusicGenerationConfig,
     type LiveMusicServerMessage,
-    type LiveMusicSession,
 } from '@google/genai';
 
-import { decode, decodeAudioData, throttle } from './utils';
-import { WORD_LIST_SOURCE, getUnusedRandomColor } from './constants';
-import { MusicComponentData, PlaybackState } from './types';
-
+import { shuffle } from './utils';
+import {
+    BEATS_PER_BAR,
+    BUILT_IN_WORD_PACK_URLS,
+    DEFAULT_BPM,
+    DEFAULT_MATCH_OPTIONS,
+    DEFAULT_WORD_PACK,
+    DIFFICULTY_PRESETS,
+    getUnusedRandomColor,
+} from './constants';
+import { canRevealLetter, createPuzzle, getPuzzleHint, getPuzzlePrompt, PUZZLE_LABELS, revealLetter } from './puzzles';
+import { getMusicPrompt, loadWordPack } from './wordPacks';
+import {
+    createScoreState,
+    getMultiplier,
+    HighScoreEntry,
+    saveHighScore,
+    ScoreState,
+    scoreCorrectGuess,
+    scoreSkip,
+    scoreTimeout,
+    scoreWrongGuess,
+} from './scoring';
+import { RoundTimer } from './roundTimer';
+import { createSeededRandom, hashString, RandomSource } from './random';
+import { createAttempt, getLetterStatuses } from './guessFeedback';
+import { matchGuess, MatchRule } from './guessMatching';
+import { CommandHistory } from './commandHistory';
+import { MusicBackendId, MusicSession, MusicSessionProvider } from './musicSession';
+import { getApiKey, LyriaSessionProvider } from './lyriaSession';
+import { LocalSynthProvider } from './localSynthSession';
+import { MixRecorder } from './recorder';
+import { BufferHealth, BufferState, PlayoutBuffer } from './playoutBuffer';
+import { PcmDecoder } from './pcmDecoder';
+import { EffectsRack, EffectsSettings, loadEffects, saveEffects } from './effectsRack';
+import {
+    loadTransitionSettings,
+    saveTransitionSettings,
+    TransitionSettings,
+    TransitionUnit,
+    WeightTransitionEngine,
+} from './weightTransitions';
+import { ConnectionManager, ConnectionStatus } from './connectionManager';
+import {
+    acceptsMessage,
+    bindMidi,
+    describeMidiSource,
+    findMidiSource,
+    loadMidiBindings,
+    MIDI_ACTION_LABELS,
+    MidiAction,
+    MidiBindings,
+    MidiInputManager,
+    MidiMessage,
+    midiSourceKey,
+    MidiStatus,
+    MidiTarget,
+    saveMidiBindings,
+    scaleToField,
+} from './midi';
+import {
+    applyConfigAutomation,
+    AUTOMATABLE_FIELDS,
+    AutomatableField,
+    AutomationChange,
+    AutomationEngine,
+    AutomationState,
+    AutomationTarget,
+    weightTarget,
+} from './automation';
+import { SessionUpdateKind, SessionUpdateQueue } from './sessionUpdateQueue';
+import { BeatClock, loadQuantize, Quantize, QUANTIZE_LABELS, QuantizedScheduler, saveQuantize } from './beatClock';
+import { blendScenes, captureScene, Scene, SceneSlot } from './scenes';
+import { SettingsPreset } from './presets';
+import { encodeWav } from './wav';
+import { clearSavedGame, loadSavedGame, saveGame, SavedGame } from './savedGame';
+import { DAILY_WORD_COUNT, formatDailySummary, getDailyKey, getDailySeed } from './daily';
+import { DifficultyLevel, DifficultyPreset, GameMode, GuessAttempt, MusicComponentData, PlaybackState, Puzzle, WordEntry, WordPack } from './types';
+
+import './components/BeatCountdown';
+import './components/BufferHealthIndicator';
+import './components/ConnectionStatusIndicator';
+import './components/AudioVisualizer';
+import './components/EffectsPanel';
 import './components/Buttons';
+import './components/GameOverSummary';
+import './components/GuessHistory';
+import './components/LetterKeyboard';
+import './components/MidiPanel';
 import './components/MusicComponentController';
+import './components/RecordingPanel';
+import './components/SceneCrossfader';
 import './components/SettingsController';
 import './components/ToastMessage';
+import './components/WordPackPicker';
 
 import { PlayPauseButton } from './components/Buttons';
+import { MusicComponentController } from './components/MusicComponentController';
+import { RecordingTrim } from './components/RecordingPanel';
 import { ToastMessage } from './components/ToastMessage';
 import { SettingsController } from './components/SettingsController';
 
-// Corrected API Key usage as per guidelines
-const getApiKey = () => {
-    if (typeof process !== 'undefined' && process.env && process.env.API_KEY) return process.env.API_KEY;
-    if (typeof process !== 'undefined' && process.env && process.env.VITE_GEMINI_API_KEY) return process.env.VITE_GEMINI_API_KEY;
-    // @ts-ignore
-    if (import.meta.env && import.meta.env.VITE_GEMINI_API_KEY) return import.meta.env.VITE_GEMINI_API_KEY;
-    return '';
+const MUSIC_PROVIDERS: Record<MusicBackendId, MusicSessionProvider> = {
+    lyria: new LyriaSessionProvider(),
+    local: new LocalSynthProvider(),
 };
 
-const ai = new GoogleGenAI({
-    apiKey: getApiKey(),
-    apiVersion: 'v1alpha',
-});
-let model = 'lyria-realtime-exp';
+const NEW_COMPONENT_WEIGHT = 0.5; // Where a newly guessed word fades in to
+
+/** `deviceMemory` is only reported by Chromium browsers, so it is missing from the DOM types. */
+type NavigatorWithMemory = Navigator & { deviceMemory?: number };
 
 /** Main component for the Word Music Game. */
 @customElement('word-music-game')
@@ -89,10 +172,97 @@ export class WordMusicGame extends LitElement {
       letter-spacing: 0.3vmin;
       text-transform: uppercase;
     }
+    .word-display.clue {
+      font-size: 2.8vmin;
+      font-weight: 500;
+      letter-spacing: normal;
+      text-transform: none;
+    }
+    .puzzle-label {
+      color: #888;
+      font-size: 1.3vmin;
+      text-transform: uppercase;
+      letter-spacing: 0.2vmin;
+    }
+    .puzzle-hint {
+      color: #ccc;
+      font-size: 2.4vmin;
+      letter-spacing: 0.3vmin;
+      min-height: 3vmin;
+    }
     .stats {
       color: #aaa;
       font-size: 1.5vmin;
       margin-bottom: 0.5vmin;
+      display: flex;
+      gap: 2vmin;
+    }
+    .stats .score {
+      color: #eee;
+      font-weight: bold;
+    }
+    .stats .multiplier {
+      color: var(--accent-color, #9900ff);
+    }
+    .resume-banner {
+      display: flex;
+      align-items: center;
+      gap: 1.5vmin;
+      padding: 1vmin 2vmin;
+      background-color: rgba(42, 42, 42, 0.9);
+      border-radius: 8px;
+      color: #eee;
+      font-size: 1.6vmin;
+    }
+    .resume-banner button {
+      padding: 0.6vmin 1.6vmin;
+      font-size: 1.6vmin;
+      color: white;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      background-color: #444;
+    }
+    .resume-banner button.primary {
+      background-color: var(--accent-color, #7b00cc);
+    }
+    .game-setup {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 1vmin;
+    }
+    .daily-banner {
+      color: #ffdd28;
+      font-size: 1.6vmin;
+    }
+    .setup-select {
+      display: flex;
+      align-items: center;
+      gap: 1vmin;
+      color: #aaa;
+      font-size: 1.5vmin;
+    }
+    .setup-select select {
+      background-color: #222;
+      color: #eee;
+      border: 1px solid #444;
+      border-radius: 4px;
+      padding: 0.5vmin;
+      font-size: 1.5vmin;
+      font-family: inherit;
+    }
+    .timed-toggle {
+      display: flex;
+      align-items: center;
+      gap: 0.5vmin;
+      cursor: pointer;
+      user-select: none;
+    }
+    .timed-toggle input {
+      accent-color: var(--accent-color, #9900ff);
+      cursor: pointer;
+      margin: 0;
     }
     .guess-container {
       display: flex;
@@ -127,7 +297,8 @@ export class WordMusicGame extends LitElement {
     #guess-button:hover {
       background-color: color-mix(in srgb, var(--accent-color, #7b00cc) 85%, #000000);
     }
-    #skip-button {
+    #skip-button,
+    #reveal-button {
       padding: 1.5vmin 2.5vmin;
       font-size: 2.2vmin;
       background-color: #444;
@@ -137,9 +308,14 @@ export class WordMusicGame extends LitElement {
       cursor: pointer;
       transition: background-color 0.3s;
     }
-    #skip-button:hover {
+    #skip-button:hover,
+    #reveal-button:hover {
       background-color: #666;
     }
+    #reveal-button:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
 
     #music-components-area {
       display: flex;
@@ -153,6 +329,37 @@ export class WordMusicGame extends LitElement {
       padding: 1vmin 0; /* Padding for aesthetic spacing */
       z-index: 1;
     }
+    .transition-controls {
+      display: flex;
+      flex-direction: column;
+      align-self: center;
+      gap: 1vmin;
+      color: #aaa;
+      font-size: 1.3vmin;
+    }
+    .transition-controls label {
+      display: flex;
+      flex-direction: column;
+      gap: 0.4vmin;
+    }
+    .transition-controls label.glide-toggle {
+      flex-direction: row;
+      align-items: center;
+      cursor: pointer;
+    }
+    .transition-controls input[type='number'] {
+      width: 4em;
+    }
+    .transition-controls input[type='number'],
+    .transition-controls select {
+      background-color: #222;
+      color: #eee;
+      border: 1px solid #444;
+      border-radius: 4px;
+      padding: 0.4vmin;
+      font-size: 1.4vmin;
+      font-family: inherit;
+    }
     #music-components-container {
       display: flex;
       flex-direction: row;
@@ -207,6 +414,69 @@ export class WordMusicGame extends LitElement {
       z-index: 1;
       margin-bottom: 1vmin;
     }
+    .backend-select,
+    .quantize-select {
+      display: flex;
+      flex-direction: column;
+      gap: 0.4vmin;
+      color: #aaa;
+      font-size: 1.3vmin;
+    }
+    .backend-select select,
+    .quantize-select select {
+      background-color: #222;
+      color: #eee;
+      border: 1px solid #444;
+      border-radius: 4px;
+      padding: 0.4vmin;
+      font-size: 1.4vmin;
+      font-family: inherit;
+    }
+    .status-indicators {
+      display: flex;
+      flex-direction: column;
+      gap: 0.6vmin;
+    }
+    .history-controls {
+      display: flex;
+      flex-direction: column;
+      gap: 0.8vmin;
+    }
+    .history-controls button {
+      padding: 0.6vmin 1.4vmin;
+      font-size: 1.5vmin;
+      color: #e0e0e0;
+      background-color: rgba(255, 255, 255, 0.08);
+      border: 1px solid rgba(255, 255, 255, 0.15);
+      border-radius: 4px;
+      cursor: pointer;
+    }
+    .history-controls button:hover:not(:disabled) {
+      background-color: rgba(255, 255, 255, 0.18);
+    }
+    .history-controls button:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+    .recording-panel-container {
+      position: absolute;
+      bottom: 14vmin;
+      left: 50%;
+      transform: translateX(-50%);
+      z-index: 5;
+    }
+    .recording-time {
+      color: #ff4d4d;
+      font-size: 1.5vmin;
+      font-variant-numeric: tabular-nums;
+      min-width: 4em;
+    }
+    record-button {
+      width: 7vmin;
+      height: 7vmin;
+      flex-shrink: 0;
+      --icon-color: #e0e0e0;
+    }
     play-pause-button,
     reset-button {
       width: 10vmin; /* Slightly smaller buttons */
@@ -221,16 +491,69 @@ export class WordMusicGame extends LitElement {
   `;
 
     @state() private musicComponents = new Map<string, MusicComponentData>();
+    @state() private removingComponents = new Set<string>(); // Fading out, deleted once silent
+    @state() private transitionSettings: TransitionSettings = loadTransitionSettings();
+    private weightTransitions = new WeightTransitionEngine((weights) => this.applyTransitionStep(weights));
+    private automation = new AutomationEngine(() => this.beatDurationMs, (states) => this.applyAutomationStep(states));
+    // Not reactive: LFO ticks are pushed straight to the controllers they drive (see pushAutomationStates)
+    private automationStates: ReadonlyMap<AutomationTarget, AutomationState> = new Map();
+    @state() private scenes: Partial<Record<SceneSlot, Scene>> = {};
+    @state() private crossfadePosition = 0; // 0 = scene A, 1 = scene B
+    private midi = new MidiInputManager(
+        (message) => this.handleMidiMessage(message),
+        (status, inputs) => { this.midiStatus = status; this.midiInputs = inputs; },
+    );
+    @state() private midiStatus: MidiStatus = this.midi.status;
+    @state() private midiInputs: string[] = this.midi.inputs;
+    @state() private midiBindings: MidiBindings = loadMidiBindings();
+    @state() private midiLearning = false;
+    @state() private midiArmed: MidiTarget | null = null; // Target waiting for a control to be moved
+    private midiGestureTimeoutId: number | undefined;
     private nextComponentId: number = 0;
-    private session!: LiveMusicSession; // Definite assignment assertion
+    @state() private musicBackend: MusicBackendId = getApiKey() ? 'lyria' : 'local'; // Offline synth when there is no API key
+    private connection = new ConnectionManager(() => this.musicProvider, {
+        onmessage: (e) => this.handleServerMessage(e),
+        onConnected: (session, reconnected) => this.restoreSession(session, reconnected),
+        onLost: (reason) => this.handleConnectionLost(reason),
+        onStatus: (status) => this.handleConnectionStatus(status),
+    });
+    @state() private connectionStatus: ConnectionStatus | null = null;
+    private sessionUpdates = new SessionUpdateQueue(
+        () => this.session,
+        (kind, error) => this.handleSessionUpdateError(kind, error),
+    );
+    private resumeAfterReconnect = false; // Whether to resume playback once the session is back
     private readonly sampleRate = 48000;
     private audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: this.sampleRate });
     private outputNode: GainNode = this.audioContext.createGain();
-    private nextStartTime = 0;
-    private readonly bufferTime = 0.5; // Reduced buffer time
+    // The rack and analyser persist across outputNode rebuilds: outputNode -> rack -> analyser -> speakers.
+    private effectsRack = new EffectsRack(this.audioContext);
+    @state() private effects: EffectsSettings = loadEffects();
+    private analyser: AnalyserNode = this.audioContext.createAnalyser();
+    private reducedMotionQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
+    @state() private reducedMotion = this.reducedMotionQuery.matches;
+    // Few cores or little memory: render the visualizer at a lower resolution and frame rate.
+    private readonly lowPowerDevice = (navigator.hardwareConcurrency ?? 8) <= 2 || ((navigator as NavigatorWithMemory).deviceMemory ?? 8) <= 2;
+    private pcmDecoder = new PcmDecoder(2);
+    private playoutBuffer = new PlayoutBuffer(this.audioContext, () => this.outputNode, 2);
+    private bufferState: BufferState = 'idle'; // Last buffer state seen; the indicator renders the rest
+    private beatClock = new BeatClock(this.audioContext);
+    // Sends changes early by the buffered audio, so they are heard on the boundary.
+    private scheduler = new QuantizedScheduler(
+        this.beatClock,
+        this.audioContext,
+        () => this.playoutBuffer.health.bufferedSeconds,
+        () => { this.pendingChanges = this.scheduler.pendingCount; },
+    );
+    @state() private quantize: Quantize = loadQuantize();
+    @state() private pendingChanges = 0;
+    private unsubscribeBufferHealth: (() => void) | undefined;
     @state() private playbackState: PlaybackState = 'stopped';
     @state() private filteredComponents = new Set<string>(); // Store promptId of filtered components
-    private connectionError = false;
+    private recorder = new MixRecorder(this.sampleRate, 2);
+    @state() private recording: boolean = false;
+    @state() private recordedSeconds: number = 0;
+    @state() private showRecordingPanel: boolean = false;
 
     @query('play-pause-button') private playPauseButton!: PlayPauseButton;
     @query('toast-message') private toastMessage!: ToastMessage;
@@ -238,24 +561,116 @@ export class WordMusicGame extends LitElement {
     @query('#guess-input') private guessInputEl!: HTMLInputElement;
 
     // Game State
-    @state() private availableWords: string[] = [];
+    @state() private wordPacks: WordPack[] = [DEFAULT_WORD_PACK];
+    @state() private selectedPackId: string = DEFAULT_WORD_PACK.id;
+    @state() private availableWords: WordEntry[] = [];
     @state() private currentWordToGuess: string = '';
+    @state() private currentPuzzle: Puzzle | null = null; // How the hidden word is presented this round
+    @state() private attempts: GuessAttempt[] = []; // Wrong guesses on the current word
     @state() private currentWordIndex: number = -1;
     @state() private gameWon: boolean = false;
+    @state() private gameMode: GameMode = 'classic';
+    @state() private dailyKey: string = getDailyKey(); // Date of the daily challenge being played
+    @state() private difficulty: DifficultyLevel = 'normal';
+    @state() private hintsLeft: number = 0;
+    @state() private scoreState: ScoreState = createScoreState();
+    @state() private highScores: HighScoreEntry[] = [];
+    @state() private highScoreRank: number = -1;
+    private roundStartedAt = 0; // performance.now() when the current word was shown
+    private gameStartedAt = 0; // Date.now() when the game was initialized
+    private roundRandom: RandomSource = Math.random; // Drives the current puzzle, reveals and color
+    @state() private shareText: string = '';
+    @state() private timedMode: boolean = false;
+    @state() private beatsLeft: number = 0;
+    private generationConfig: LiveMusicGenerationConfig = {}; // Last config sent from the settings panel
+    @state() private savedGame: SavedGame | null = null; // Game from a previous visit, offered for resume
+    private readonly saveDelay = 500; // Debounce for autosave, in ms
+    private readonly saveMaxWait = 2000; // Longest an autosave can be postponed, in ms
+    private saveRequestedAt: number | undefined; // performance.now() of the oldest unsaved change
+    private history = new CommandHistory(() => this.requestUpdate());
+    private suppressHistory = false; // Set while the app itself changes settings, so it is not recorded
+    private saveTimeoutId: number | undefined;
+    private roundTimer = new RoundTimer({
+        onBeat: (beatsLeft) => { this.beatsLeft = beatsLeft; },
+        onExpire: () => this.handleRoundTimeout(),
+    });
 
 
     constructor() {
         super();
-        this.outputNode.connect(this.audioContext.destination);
+        this.scheduler.quantize = this.quantize;
+        this.analyser.fftSize = 1024;
+        this.analyser.smoothingTimeConstant = 0.8;
+        this.analyser.connect(this.audioContext.destination);
+        this.effectsRack.output.connect(this.analyser);
+        this.effectsRack.apply(this.effects);
+        this.outputNode.connect(this.effectsRack.input);
         this.initializeGame();
     }
 
+    private get selectedPack(): WordPack {
+        return this.wordPacks.find(p => p.id === this.selectedPackId) ?? DEFAULT_WORD_PACK;
+    }
+
+    /** True until the player has made any guess or skipped a word, the only time the pack can change. */
+    private get isGamePristine(): boolean {
+        return this.currentWordIndex <= 0
+            && this.musicComponents.size === 0
+            && this.attempts.length === 0
+            && this.scoreState.wrongGuesses === 0
+            && this.scoreState.score === 0;
+    }
+
+    private get difficultyPreset(): DifficultyPreset {
+        return DIFFICULTY_PRESETS[this.difficulty];
+    }
+
+    /** Words from the selected pack that fit the difficulty's length range, shuffled. */
+    private pickWordsForGame(): WordEntry[] {
+        if (this.gameMode === 'daily') {
+            const random = createSeededRandom(getDailySeed(this.dailyKey));
+            const { minWordLength, maxWordLength } = DIFFICULTY_PRESETS.normal;
+            const words = DEFAULT_WORD_PACK.words.filter(w => w.answer.length >= minWordLength && w.answer.length <= maxWordLength);
+            return shuffle(words, random).slice(0, DAILY_WORD_COUNT);
+        }
+        const { minWordLength, maxWordLength } = this.difficultyPreset;
+        const words = this.selectedPack.words.filter(w => w.answer.length >= minWordLength && w.answer.length <= maxWordLength);
+        if (words.length === 0) {
+            console.warn(`No words in "${this.selectedPack.name}" fit ${this.difficultyPreset.label}; using the whole pack.`);
+            return shuffle(this.selectedPack.words);
+        }
+        return shuffle(words);
+    }
+
+    /**
+     * Classic rounds use Math.random. Daily rounds get a PRNG seeded from the date and
+     * word index, so every player sees the same puzzle regardless of earlier actions.
+     */
+    private createRoundRandom(wordIndex: number): RandomSource {
+        if (this.gameMode !== 'daily') return Math.random;
+        return createSeededRandom(hashString(`${this.dailyKey}:${wordIndex}`));
+    }
+
     private initializeGame() {
-        this.availableWords = [...WORD_LIST_SOURCE].sort(() => 0.5 - Math.random());
+        if (this.gameMode === 'daily') {
+            this.dailyKey = getDailyKey();
+        }
+        this.availableWords = this.pickWordsForGame();
+        this.gameStartedAt = Date.now();
+        this.shareText = '';
+        this.hintsLeft = this.difficultyPreset.hints;
+        this.weightTransitions.clear();
+        this.detachWeightAutomation();
+        this.clearScenes();
+        this.removingComponents = new Set();
         this.musicComponents.clear(); // Clear existing components
+        this.history.clear();
         this.nextComponentId = 0;
         this.currentWordIndex = -1;
         this.gameWon = false;
+        this.scoreState = createScoreState();
+        this.highScores = [];
+        this.highScoreRank = -1;
         this.filteredComponents.clear();
         this.fetchNextWord();
         // If session exists, update it
@@ -267,133 +682,689 @@ export class WordMusicGame extends LitElement {
     private fetchNextWord() {
         this.currentWordIndex++;
         if (this.currentWordIndex < this.availableWords.length) {
-            this.currentWordToGuess = this.availableWords[this.currentWordIndex];
+            const entry = this.availableWords[this.currentWordIndex];
+            this.currentWordToGuess = entry.answer;
+            this.attempts = [];
+            this.roundRandom = this.createRoundRandom(this.currentWordIndex);
+            this.currentPuzzle = createPuzzle(entry, this.roundRandom);
+            this.roundStartedAt = performance.now();
+            this.startRoundTimer();
         } else {
             this.currentWordToGuess = "YOU WON!"; // Or handle game completion
+            this.currentPuzzle = null;
+            this.attempts = [];
             this.gameWon = true;
+            this.roundTimer.stop();
+            this.recordHighScore();
+            if (this.gameMode === 'daily') {
+                this.shareText = formatDailySummary(this.dailyKey, this.scoreState, this.availableWords.length, Date.now() - this.gameStartedAt);
+            }
             this.toastMessage.show("Congratulations! You've guessed all words!", 5000);
         }
     }
 
+    private get beatDurationMs(): number {
+        return 60000 / (this.sessionConfig.bpm ?? DEFAULT_BPM);
+    }
+
+    private startRoundTimer() {
+        if (!this.timedMode) return;
+        this.roundTimer.start(this.difficultyPreset.roundBars * BEATS_PER_BAR, this.beatDurationMs);
+        this.syncRoundTimer();
+    }
+
+    /** The round clock only runs in timed mode while music is actually playing. */
+    private syncRoundTimer() {
+        if (this.timedMode && this.playbackState === 'playing' && !this.gameWon) {
+            this.roundTimer.resume();
+        } else {
+            this.roundTimer.pause();
+        }
+    }
+
+    private handleRoundTimeout() {
+        const { state, penalty } = scoreTimeout(this.scoreState);
+        this.scoreState = state;
+        this.toastMessage.show(`Time's up! The word was ${this.currentWordToGuess}${penalty > 0 ? ` (-${penalty})` : ''}`, 2500);
+        this.fetchNextWord();
+    }
+
+    private handleTimedModeChange(e: Event) {
+        this.timedMode = (e.target as HTMLInputElement).checked;
+        if (this.timedMode) {
+            this.startRoundTimer();
+            if (this.playbackState !== 'playing') {
+                this.toastMessage.show('Timed mode: the clock runs while the music plays.', 3000);
+            }
+        } else {
+            this.roundTimer.stop();
+        }
+    }
+
+    override updated(changedProperties: Map<string | symbol, unknown>) {
+        super.updated(changedProperties);
+        this.scheduleSave();
+        if (changedProperties.has('playbackState') || changedProperties.has('timedMode') || changedProperties.has('gameWon')) {
+            this.syncRoundTimer();
+        }
+    }
+
+    /** Mirrors the buffer's state into the play button: loading while (re)buffering. */
+    private handleBufferHealth = (health: BufferHealth) => {
+        const previous = this.bufferState;
+        this.bufferState = health.state;
+        // The beat grid follows what is audible: it starts with playback and holds during rebuffers.
+        if (health.state === 'playing' && previous !== 'playing') {
+            if (this.beatClock.paused) this.beatClock.resume(); else this.beatClock.start();
+        } else if (health.state === 'buffering' && previous === 'playing') {
+            this.beatClock.pause();
+        }
+        if (health.state === 'playing' && this.playbackState === 'loading') {
+            this.playbackState = 'playing';
+        } else if (health.state === 'buffering' && this.playbackState === 'playing') {
+            console.warn('Audio under-run detected, rebuffering.');
+            this.playbackState = 'loading';
+        }
+    };
+
+    override connectedCallback() {
+        super.connectedCallback();
+        this.unsubscribeBufferHealth = this.playoutBuffer.subscribe(this.handleBufferHealth);
+        window.addEventListener('pagehide', this.persistGame);
+        window.addEventListener('keydown', this.handleGlobalKeydown);
+        this.reducedMotionQuery.addEventListener('change', this.handleReducedMotionChange);
+    }
+
+    override disconnectedCallback() {
+        super.disconnectedCallback();
+        this.roundTimer.stop();
+        this.automation.clear();
+        this.midi.stop();
+        window.clearTimeout(this.midiGestureTimeoutId);
+        window.removeEventListener('pagehide', this.persistGame);
+        window.removeEventListener('keydown', this.handleGlobalKeydown);
+        this.unsubscribeBufferHealth?.();
+        this.reducedMotionQuery.removeEventListener('change', this.handleReducedMotionChange);
+    }
+
+    private handleReducedMotionChange = (e: MediaQueryListEvent) => {
+        this.reducedMotion = e.matches;
+    };
+
+    /** Debounced, but never postponed past `saveMaxWait`, so steady re-renders during playback cannot starve it. */
+    private scheduleSave() {
+        window.clearTimeout(this.saveTimeoutId);
+        const now = performance.now();
+        this.saveRequestedAt ??= now;
+        const wait = Math.min(this.saveDelay, this.saveRequestedAt + this.saveMaxWait - now);
+        this.saveTimeoutId = window.setTimeout(this.persistGame, Math.max(0, wait));
+    }
+
+    /** Saves the game in progress. Untouched games are not saved so they never overwrite one awaiting resume. */
+    private persistGame = () => {
+        window.clearTimeout(this.saveTimeoutId);
+        this.saveRequestedAt = undefined;
+        if (this.gameWon) {
+            clearSavedGame();
+            return;
+        }
+        if (this.isGamePristine) return;
+        saveGame({
+            version: 1,
+            savedAt: new Date().toISOString(),
+            gameMode: this.gameMode,
+            dailyKey: this.dailyKey,
+            difficulty: this.difficulty,
+            pack: this.selectedPack,
+            availableWords: this.availableWords,
+            currentWordIndex: this.currentWordIndex,
+            currentPuzzle: this.currentPuzzle,
+            attempts: this.attempts,
+            hintsLeft: this.hintsLeft,
+            scoreState: this.scoreState,
+            elapsedMs: Date.now() - this.gameStartedAt,
+            timedMode: this.timedMode,
+            // Save the weights components are heading for; components fading out are already gone.
+            musicComponents: [...this.musicComponents.values()]
+                .filter(c => !this.removingComponents.has(c.promptId))
+                .map(c => ({ ...c, weight: this.savedWeight(c) })),
+            nextComponentId: this.nextComponentId,
+            filteredComponents: [...this.filteredComponents],
+            generationConfig: this.generationConfig,
+        });
+    };
+
+    /** The weight a component is heading for, which is what a resumed game should start from. */
+    private savedWeight(component: MusicComponentData): number {
+        if (this.scheduler.has(`add:${component.promptId}`)) return NEW_COMPONENT_WEIGHT;
+        return this.weightTransitions.target(component.promptId) ?? component.weight;
+    }
+
+    /** Rebuilds the game and mix from a save, then pushes prompts and config to the session. */
+    private async resumeGame(saved: SavedGame) {
+        this.savedGame = null;
+        this.addWordPacks([saved.pack]);
+        this.selectedPackId = saved.pack.id;
+        this.gameMode = saved.gameMode;
+        this.dailyKey = saved.dailyKey;
+        this.difficulty = saved.difficulty;
+        this.availableWords = saved.availableWords;
+        this.currentWordIndex = saved.currentWordIndex;
+        this.gameWon = false;
+        this.shareText = '';
+        this.highScores = [];
+        this.highScoreRank = -1;
+
+        const entry = this.availableWords[this.currentWordIndex];
+        this.currentWordToGuess = entry.answer;
+        this.roundRandom = this.createRoundRandom(this.currentWordIndex);
+        this.currentPuzzle = saved.currentPuzzle ?? createPuzzle(entry, this.roundRandom);
+        this.attempts = saved.attempts;
+        this.hintsLeft = saved.hintsLeft;
+        this.scoreState = saved.scoreState;
+        this.gameStartedAt = Date.now() - saved.elapsedMs;
+        this.roundStartedAt = performance.now();
+
+        this.weightTransitions.clear();
+        this.detachWeightAutomation();
+        this.clearScenes();
+        this.removingComponents = new Set();
+        this.musicComponents = new Map(saved.musicComponents.map(c => [c.promptId, c]));
+        this.nextComponentId = saved.nextComponentId;
+        this.filteredComponents = new Set(saved.filteredComponents);
+
+        this.timedMode = saved.timedMode;
+        this.startRoundTimer();
+
+        this.history.clear();
+        this.applyConfigWithoutHistory(saved.generationConfig);
+        this.sendSettings();
+        this.setSessionMusicComponents();
+        this.toastMessage.show('Game resumed.', 2000);
+    }
+
+    private handleResumeClick() {
+        if (this.savedGame) this.resumeGame(this.savedGame);
+    }
+
+    private handleDiscardSave() {
+        clearSavedGame();
+        this.savedGame = null;
+    }
+
+    private recordHighScore() {
+        const { highScores, rank } = saveHighScore({
+            score: this.scoreState.score,
+            correct: this.scoreState.correct,
+            bestStreak: this.scoreState.bestStreak,
+            packName: this.gameMode === 'daily' ? `Daily ${this.dailyKey}` : this.selectedPack.name,
+            date: new Date().toISOString(),
+        });
+        this.highScores = highScores;
+        this.highScoreRank = rank;
+    }
+
     private skipWord() {
         this.toastMessage.show(`Skipped: ${this.currentWordToGuess}`, 2000);
+        this.scoreState = scoreSkip(this.scoreState);
         this.fetchNextWord();
     }
 
-    override async firstUpdated() {
-        await this.connectToSession();
-        this.setSessionMusicComponents(); // Initial call with empty components
+    private get canRevealHint(): boolean {
+        return !this.gameWon && this.hintsLeft > 0 && !!this.currentPuzzle && canRevealLetter(this.currentPuzzle);
+    }
+
+    private revealHintLetter() {
+        if (!this.canRevealHint) return;
+        this.currentPuzzle = revealLetter(this.currentPuzzle!, this.roundRandom);
+        this.hintsLeft--;
+        this.guessInputEl.focus();
+    }
+
+    private async loadBuiltInWordPacks() {
+        const results = await Promise.allSettled(BUILT_IN_WORD_PACK_URLS.map(url => loadWordPack(url)));
+        const loaded: WordPack[] = [];
+        results.forEach((result, i) => {
+            if (result.status === 'fulfilled') {
+                loaded.push(result.value);
+            } else {
+                console.warn(`Failed to load word pack ${BUILT_IN_WORD_PACK_URLS[i]}:`, result.reason);
+            }
+        });
+        this.addWordPacks(loaded);
+    }
+
+    /** Adds packs to the picker, replacing any existing pack with the same id. */
+    private addWordPacks(packs: WordPack[]) {
+        const byId = new Map(this.wordPacks.map(p => [p.id, p]));
+        packs.forEach(p => byId.set(p.id, p));
+        this.wordPacks = [...byId.values()];
     }
 
-    private async connectToSession() {
+    private selectWordPack(packId: string) {
+        if (!this.isGamePristine && !this.gameWon) return;
+        this.selectedPackId = packId;
+        this.initializeGame();
+        this.toastMessage.show(`Word pack: ${this.selectedPack.name}`, 2000);
+    }
+
+    private handleGameModeChange(e: Event) {
+        if (!this.isGamePristine && !this.gameWon) return;
+        this.gameMode = (e.target as HTMLSelectElement).value as GameMode;
+        if (this.gameMode === 'daily') {
+            this.selectedPackId = DEFAULT_WORD_PACK.id;
+            this.difficulty = 'normal';
+        }
+        this.initializeGame();
+        this.applyModeSeed();
+    }
+
+    /** Daily games pin the music seed to the date; switching back to classic releases it. */
+    private applyModeSeed() {
+        const seed = this.gameMode === 'daily' ? getDailySeed(this.dailyKey) : undefined;
+        if (this.generationConfig.seed === seed) return;
+        this.applyConfigWithoutHistory({ ...this.generationConfig, seed });
+    }
+
+    private handleDifficultyChange(e: Event) {
+        if (!this.isGamePristine && !this.gameWon) return;
+        this.difficulty = (e.target as HTMLSelectElement).value as DifficultyLevel;
+        this.initializeGame();
+    }
+
+    private handleWordPackSelected(e: CustomEvent<string>) {
+        this.selectWordPack(e.detail);
+    }
+
+    private async handleWordPackUrlSubmitted(e: CustomEvent<string>) {
         try {
-            this.session = await ai.live.music.connect({
-                model: model,
-                callbacks: {
-                    onmessage: async (e: LiveMusicServerMessage) => {
-                        console.log('Received message from the server:', e);
-                        if (e.setupComplete) {
-                            this.connectionError = false;
-                        }
-                        if (e.filteredPrompt) { // Lyria API uses "prompt" for text inputs
-                            const component = [...this.musicComponents.values()].find(p => p.text === e.filteredPrompt!.text);
-                            if (component) {
-                                this.filteredComponents.add(component.promptId);
-                                this.toastMessage.show(`"${e.filteredPrompt.text}" was filtered: ${e.filteredPrompt.filteredReason}`);
-                                this.requestUpdate();
-                            }
-                        }
-                        if (e.serverContent?.audioChunks !== undefined && e.serverContent.audioChunks.length > 0) {
-                            if (this.playbackState === 'paused' || this.playbackState === 'stopped') return;
-                            try {
-                                const audioDataString = e.serverContent.audioChunks[0].data;
-                                if (!audioDataString || audioDataString.trim() === "") {
-                                    console.warn("Received empty audio chunk data.");
-                                    return;
-                                }
-                                const decodedData = decode(audioDataString);
-                                if (decodedData.length === 0) {
-                                    console.warn("Decoded audio data is empty.");
-                                    return;
-                                }
-
-                                const audioBuffer = await decodeAudioData(
-                                    decodedData,
-                                    this.audioContext,
-                                    this.sampleRate, 2,
-                                );
-
-                                if (audioBuffer.duration === 0) {
-                                    console.warn("Processed audio buffer has zero duration.");
-                                    return;
-                                }
-
-                                const source = this.audioContext.createBufferSource();
-                                source.buffer = audioBuffer;
-                                source.connect(this.outputNode);
-
-                                if (this.nextStartTime === 0) {
-                                    this.nextStartTime = this.audioContext.currentTime + this.bufferTime;
-                                    setTimeout(() => { if (this.playbackState === 'loading') this.playbackState = 'playing'; }, this.bufferTime * 1000);
-                                }
-
-                                if (this.nextStartTime < this.audioContext.currentTime) {
-                                    console.warn('Audio under-run detected.');
-                                    this.toastMessage.show('Audio buffer under-run. Resyncing...', 2000);
-                                    this.playbackState = 'loading';
-                                    this.nextStartTime = 0;
-                                    return;
-                                }
-                                source.start(this.nextStartTime);
-                                this.nextStartTime += audioBuffer.duration;
-
-                            } catch (audioError) {
-                                console.error("Error processing audio chunk:", audioError);
-                                this.toastMessage.show("Error playing audio. Check console.", 3000);
-                                if (this.playbackState === 'playing' || this.playbackState === 'loading') {
-                                    this.pauseAudio(); // Attempt to gracefully pause on audio error
-                                }
-                            }
-                        }
-                    },
-                    onerror: (errorEvent: ErrorEvent) => {
-                        console.error('Connection error:', errorEvent.message);
-                        this.connectionError = true;
-                        this.pauseAudio();
-                        this.toastMessage.show(`Connection error: ${errorEvent.message}. Please try again.`, 5000);
-                    },
-                    onclose: (closeEvent: CloseEvent) => {
-                        console.log('Connection closed.', closeEvent.reason);
-                        if (!closeEvent.wasClean) {
-                            this.connectionError = true;
-                            this.pauseAudio();
-                            this.toastMessage.show('Connection closed unexpectedly. Please check console.', 5000);
-                        }
-                    },
-                },
-            });
-            this.connectionError = false;
-        } catch (err) {
-            console.error("Failed to connect to session:", err);
-            this.toastMessage.show("Failed to connect to music session. Retrying may be needed.", 5000);
-            this.connectionError = true;
+            const pack = await loadWordPack(e.detail);
+            this.addWordPacks([pack]);
+            this.selectWordPack(pack.id);
+        } catch (err: unknown) {
+            console.error('Failed to load word pack:', err);
+            this.toastMessage.show((err instanceof Error && err.message) || 'Failed to load word pack.', 4000);
         }
     }
 
-    private setSessionMusicComponents = throttle(async () => {
-        if (!this.session) return;
-        const componentsToSend = Array.from(this.musicComponents.values()).filter(p => {
-            return !this.filteredComponents.has(p.promptId) && p.weight > 0.01;
+    override async firstUpdated() {
+        this.generationConfig = { ...this.settingsController.defaultConfig };
+        this.savedGame = loadSavedGame();
+        this.loadBuiltInWordPacks();
+        this.playoutBuffer.ready.catch((err) => {
+            console.error('Failed to load the playback worklet:', err);
+            this.toastMessage.show('Audio playback is not supported in this browser.', 5000);
         });
-        try {
-            await this.session.setWeightedPrompts({
-                weightedPrompts: componentsToSend.map(c => ({ text: c.text, weight: c.weight })),
-            });
-        } catch (e: any) {
-            this.toastMessage.show(e.message || "Error updating music components.", 4000);
+        await this.connection.connect();
+    }
+
+    private get session(): MusicSession | undefined {
+        return this.connection.session;
+    }
+
+    private get musicProvider(): MusicSessionProvider {
+        return MUSIC_PROVIDERS[this.musicBackend];
+    }
+
+    /** Closes the current session and reconnects to the chosen backend with the same mix. */
+    private async handleBackendChange(e: Event) {
+        const backend = (e.target as HTMLSelectElement).value as MusicBackendId;
+        if (backend === this.musicBackend) return;
+        this.pauseAudio();
+        this.connection.disconnect();
+        this.musicBackend = backend;
+        if (await this.connection.connect()) {
+            this.toastMessage.show(`Music engine: ${this.musicProvider.label}`, 2000);
+        }
+    }
+
+    private handleServerMessage = async (e: LiveMusicServerMessage) => {
+        if (!e.serverContent?.audioChunks?.length) console.log('Received message from the server:', e); // Audio arrives every bar
+        if (e.filteredPrompt) { // Lyria API uses "prompt" for text inputs
+            const component = [...this.musicComponents.values()].find(p => p.prompt === e.filteredPrompt!.text);
+            if (component) {
+                this.filteredComponents.add(component.promptId);
+                this.toastMessage.show(`"${component.text}" was filtered: ${e.filteredPrompt.filteredReason}`);
+                this.requestUpdate();
+            }
+        }
+        if (e.serverContent?.audioChunks !== undefined && e.serverContent.audioChunks.length > 0) {
+            if (!this.acceptsAudio) return;
+            try {
+                const audioDataString = e.serverContent.audioChunks[0].data;
+                if (!audioDataString || audioDataString.trim() === "") {
+                    console.warn("Received empty audio chunk data.");
+                    return;
+                }
+                const channels = await this.pcmDecoder.decode(audioDataString);
+                if (channels[0].length === 0) {
+                    console.warn("Decoded audio data is empty.");
+                    return;
+                }
+                // Decoding is asynchronous, so playback may have stopped meanwhile.
+                if (!this.acceptsAudio) return;
+
+                if (this.recorder.recording) {
+                    this.recorder.append(channels);
+                    this.recordedSeconds = this.recorder.duration;
+                }
+
+                this.playoutBuffer.push(channels);
+
+            } catch (audioError) {
+                console.error("Error processing audio chunk:", audioError);
+                this.toastMessage.show("Error playing audio. Check console.", 3000);
+                if (this.playbackState === 'playing' || this.playbackState === 'loading') {
+                    this.pauseAudio(); // Attempt to gracefully pause on audio error
+                }
+            }
+        }
+    };
+
+    /** Incoming audio is only played while playing or waiting for the buffer to fill. */
+    private get acceptsAudio(): boolean {
+        return this.playbackState === 'playing' || this.playbackState === 'loading';
+    }
+
+    /** Replays the mix, the full generation config and the playback state onto a fresh session. */
+    private restoreSession = async (session: MusicSession, reconnected: boolean) => {
+        this.sessionUpdates.clear(); // Superseded by the full replay below
+        await session.setWeightedPrompts({ weightedPrompts: this.weightedPrompts });
+        await session.setMusicGenerationConfig({ musicGenerationConfig: this.sessionConfig });
+        if (reconnected) this.toastMessage.show('Reconnected.', 2000);
+        if (this.resumeAfterReconnect) {
+            this.resumeAfterReconnect = false;
+            this.loadAudio();
+        }
+    };
+
+    private handleConnectionLost = (reason: string) => {
+        if (this.playbackState === 'playing' || this.playbackState === 'loading') {
+            this.resumeAfterReconnect = true;
+            this.pauseAudio();
+        }
+        this.toastMessage.show(`${reason}. Reconnecting...`, 3000);
+    };
+
+    private handleConnectionStatus = (status: ConnectionStatus) => {
+        this.connectionStatus = status;
+        if (status.state === 'failed') {
+            this.resumeAfterReconnect = false;
+            this.toastMessage.show('Could not reconnect to the music session.', 5000);
+        }
+    };
+
+    private handleConnectionRetry() {
+        this.connection.connect();
+    }
+
+    /** A component's weight as heard: the LFO value while one is attached. */
+    private audibleWeight(component: MusicComponentData): number {
+        return this.automationStates.get(weightTarget(component.promptId))?.value ?? component.weight;
+    }
+
+    /** Prompts that are actually sent to the session: unfiltered and audible. */
+    private get weightedPrompts() {
+        return Array.from(this.musicComponents.values())
+            .filter(c => !this.filteredComponents.has(c.promptId))
+            .map(c => ({ text: c.prompt, weight: this.audibleWeight(c) }))
+            .filter(p => p.weight > 0.01);
+    }
+
+    /** The settings panel's config with automated fields replaced by their LFO values. */
+    private get sessionConfig(): LiveMusicGenerationConfig {
+        return applyConfigAutomation(this.generationConfig, this.automationStates);
+    }
+
+    /** Queues the current mix for the session; rapid calls collapse into one request. */
+    private setSessionMusicComponents() {
+        this.sessionUpdates.request('prompts', session => session.setWeightedPrompts({
+            weightedPrompts: this.weightedPrompts,
+        }));
+    }
+
+    /** Queues the current generation config for the session; rapid calls collapse into one request. */
+    private sendSettings() {
+        this.sessionUpdates.request('config', session => session.setMusicGenerationConfig({
+            musicGenerationConfig: this.sessionConfig,
+        }));
+    }
+
+    private handleAutomationChanged(e: CustomEvent<AutomationChange>) {
+        const { target, settings } = e.detail;
+        if (settings) {
+            this.automation.attach(target, settings);
+        } else {
+            this.automation.detach(target);
+        }
+    }
+
+    /** Streams LFO values to the session through the same queue as manual edits. */
+    private applyAutomationStep(states: ReadonlyMap<AutomationTarget, AutomationState>) {
+        const touched = [...this.automationStates.keys(), ...states.keys()];
+        this.automationStates = states;
+        this.pushAutomationStates();
+        if (touched.some(target => target.startsWith('config:'))) {
+            this.beatClock.setBpm(this.sessionConfig.bpm ?? DEFAULT_BPM);
+            this.roundTimer.setBeatDuration(this.beatDurationMs);
+            this.sendSettings();
+        }
+        if (touched.some(target => target.startsWith('weight:'))) {
+            this.setSessionMusicComponents();
+        }
+    }
+
+    /** Hands the latest LFO states to the controllers showing them, without re-rendering the game. */
+    private pushAutomationStates() {
+        if (this.settingsController) this.settingsController.automation = this.automationStates;
+        this.renderRoot.querySelectorAll<MusicComponentController>('music-component-controller').forEach(controller => {
+            controller.automation = this.automationStates.get(weightTarget(controller.promptId)) ?? null;
+        });
+    }
+
+    /** Scenes refer to components by id, and ids restart with every game. */
+    private clearScenes() {
+        this.scenes = {};
+        this.crossfadePosition = 0;
+    }
+
+    private handleSceneStored(e: CustomEvent<SceneSlot>) {
+        const slot = e.detail;
+        // Store the weights the user set: where running transitions end, not the ramp or LFO output.
+        const components = this.mappableComponents
+            .map(c => ({ ...c, weight: this.weightTransitions.target(c.promptId) ?? c.weight }));
+        this.scenes = { ...this.scenes, [slot]: captureScene(components, this.generationConfig) };
+        // The mix now is exactly this scene, so the fader belongs at its end.
+        this.crossfadePosition = slot === 'a' ? 0 : 1;
+        this.toastMessage.show(`Stored scene ${slot.toUpperCase()}.`, 1500);
+    }
+
+    /**
+     * Moves the mix between the two scenes; components missing from the game are skipped.
+     * Weights and config reach the session on the same beat, so the blend is never heard half-applied.
+     */
+    private handleCrossfade(e: CustomEvent<number>) {
+        const { a, b } = this.scenes;
+        if (!a || !b) return;
+        this.crossfadePosition = e.detail;
+        const blend = blendScenes(a, b, e.detail);
+        blend.weights.forEach((weight, promptId) => {
+            const component = this.musicComponents.get(promptId);
+            if (!component || this.removingComponents.has(promptId)) return;
+            this.weightTransitions.cancel(promptId);
+            component.weight = weight;
+        });
+        this.requestUpdate('musicComponents');
+        this.applyConfigWithoutHistory(blend.config);
+        // Replaces the config-only send queued by the settings change with one that carries both.
+        this.scheduler.schedule('settings', () => {
+            this.setSessionMusicComponents();
+            this.sendSettings();
+        });
+    }
+
+    /** Components in mix order, skipping those fading out; MIDI binds to positions in this list. */
+    private get mappableComponents(): MusicComponentData[] {
+        return [...this.musicComponents.values()].filter(c => !this.removingComponents.has(c.promptId));
+    }
+
+    private describeMidiTarget = (target: MidiTarget): string => {
+        const [kind, name] = target.split(':');
+        if (kind === 'component') {
+            const component = this.mappableComponents[Number(name)];
+            return `Component ${Number(name) + 1}${component ? ` (${component.text})` : ''}`;
+        }
+        if (kind === 'config') return AUTOMATABLE_FIELDS[name as AutomatableField].label;
+        return MIDI_ACTION_LABELS[name as MidiAction];
+    };
+
+    private handleMidiEnable() {
+        this.midi.start();
+    }
+
+    private handleMidiLearnToggle() {
+        this.midiLearning = !this.midiLearning;
+        this.midiArmed = null;
+    }
+
+    /** Arms a target for learning; clicking the armed target again disarms it. */
+    private handleMidiLearn(e: CustomEvent<MidiTarget>) {
+        this.midiArmed = this.midiArmed === e.detail ? null : e.detail;
+    }
+
+    private handleMidiBindingRemoved(e: CustomEvent<string>) {
+        const bindings = new Map(this.midiBindings);
+        bindings.delete(e.detail);
+        this.midiBindings = bindings;
+        saveMidiBindings(bindings);
+    }
+
+    private handleMidiVirtualMessage(e: CustomEvent<number[]>) {
+        this.midi.receive(e.detail);
+    }
+
+    private handleMidiMessage(message: MidiMessage) {
+        const source = midiSourceKey(message);
+        if (this.midiArmed) {
+            if (!acceptsMessage(this.midiArmed, message)) return;
+            this.midiBindings = bindMidi(this.midiBindings, source, this.midiArmed);
+            saveMidiBindings(this.midiBindings);
+            this.toastMessage.show(`Mapped ${describeMidiSource(source)} to ${this.describeMidiTarget(this.midiArmed)}.`, 2000);
+            this.midiArmed = null;
+            return;
+        }
+        const target = this.midiBindings.get(source);
+        if (!target || !acceptsMessage(target, message)) return;
+        if (message.type === 'note-on') {
+            this.runMidiAction(target.slice('action:'.length) as MidiAction);
+        } else {
+            this.applyMidiControl(target, message.value);
+        }
+    }
+
+    private applyMidiControl(target: MidiTarget, value: number) {
+        const [kind, name] = target.split(':');
+        if (kind === 'component') {
+            const component = this.mappableComponents[Number(name)];
+            if (!component) return;
+            this.setComponentWeight(component, Math.round((value / 127) * 2 * 100) / 100);
+        } else {
+            const field = name as AutomatableField;
+            this.settingsController.setConfig({ ...this.generationConfig, [field]: scaleToField(field, value) });
+        }
+        // A controller has no release, so a pause in movement ends the undo step.
+        window.clearTimeout(this.midiGestureTimeoutId);
+        this.midiGestureTimeoutId = window.setTimeout(() => this.handleEditCommitted(), 500);
+    }
+
+    private runMidiAction(action: MidiAction) {
+        switch (action) {
+            case 'play-pause':
+                this.handlePlayPause();
+                break;
+            case 'skip':
+                if (!this.gameWon) this.skipWord();
+                break;
+            case 'reset':
+                this.handleReset();
+                break;
+        }
+    }
+
+    private detachWeightAutomation() {
+        this.musicComponents.forEach((_, promptId) => this.automation.detach(weightTarget(promptId)));
+    }
+
+    private handleSessionUpdateError(kind: SessionUpdateKind, error: unknown) {
+        console.error(`Failed to update ${kind === 'prompts' ? 'music components' : 'settings'}:`, error);
+        const message = error instanceof Error ? error.message : '';
+        if (kind === 'prompts') {
+            this.toastMessage.show(message || 'Error updating music components.', 4000);
             if (this.playbackState === 'playing' || this.playbackState === 'loading') this.pauseAudio();
+        } else {
+            this.toastMessage.show(message || 'Error updating settings.', 4000);
         }
-    }, 200);
+    }
+
+    /** Length of a weight transition in ms, following the tempo when measured in bars. */
+    private get transitionMs(): number {
+        const { amount, unit } = this.transitionSettings;
+        return unit === 'bars' ? amount * BEATS_PER_BAR * this.beatDurationMs : amount * 1000;
+    }
+
+    /** Ramps a component's weight to `weight`, sending interpolated updates along the way. */
+    private glideWeight(promptId: string, weight: number, onDone?: () => void) {
+        const component = this.musicComponents.get(promptId);
+        if (!component) return;
+        this.weightTransitions.start(promptId, component.weight, weight, this.transitionMs, onDone);
+        this.requestUpdate('musicComponents');
+    }
+
+    private applyTransitionStep(weights: ReadonlyMap<string, number>) {
+        weights.forEach((weight, promptId) => {
+            const component = this.musicComponents.get(promptId);
+            if (component) component.weight = weight;
+        });
+        this.requestUpdate('musicComponents');
+        this.setSessionMusicComponents();
+    }
+
+    /** Fades a component out, then deletes it. */
+    private fadeOutComponent(promptId: string) {
+        const component = this.musicComponents.get(promptId);
+        if (!component) return;
+        // Fade from what is heard rather than jumping back to the slider position.
+        component.weight = this.audibleWeight(component);
+        this.automation.detach(weightTarget(promptId));
+        this.removingComponents = new Set(this.removingComponents).add(promptId);
+        this.glideWeight(promptId, 0, () => this.deleteMusicComponent(promptId));
+    }
+
+    /** Inserts a component at `index` with no weight and fades it in to `weight`. */
+    private fadeInComponent(component: MusicComponentData, index: number, filtered: boolean, weight: number) {
+        const current = this.musicComponents.get(component.promptId);
+        this.insertMusicComponent({ ...component, weight: current?.weight ?? 0 }, index, filtered);
+        this.glideWeight(component.promptId, weight);
+    }
+
+    private handleTransitionAmountChange(e: Event) {
+        const amount = Number((e.target as HTMLInputElement).value);
+        if (!Number.isFinite(amount) || amount < 0) return;
+        this.updateTransitionSettings({ amount });
+    }
+
+    private handleTransitionUnitChange(e: Event) {
+        this.updateTransitionSettings({ unit: (e.target as HTMLSelectElement).value as TransitionUnit });
+    }
+
+    private handleGlideChange(e: Event) {
+        this.updateTransitionSettings({ glide: (e.target as HTMLInputElement).checked });
+    }
+
+    private updateTransitionSettings(patch: Partial<TransitionSettings>) {
+        this.transitionSettings = { ...this.transitionSettings, ...patch };
+        saveTransitionSettings(this.transitionSettings);
+    }
 
 
     private handleMusicComponentChanged(e: CustomEvent<MusicComponentData>) {
@@ -404,9 +1375,22 @@ export class WordMusicGame extends LitElement {
             console.error('Music component not found for changing:', changedComponentData.promptId);
             return;
         }
+        if (this.removingComponents.has(component.promptId)) return;
         component.text = changedComponentData.text;
-        component.weight = changedComponentData.weight;
+        this.setComponentWeight(component, changedComponentData.weight);
+    }
+
+    /** Applies a weight edit from the slider or a MIDI control: recorded, and glided if glide is on. */
+    private setComponentWeight(component: MusicComponentData, weight: number) {
+        const previousWeight = this.weightTransitions.target(component.promptId) ?? component.weight;
+        this.recordWeightChange(component.promptId, component.text, previousWeight, weight);
 
+        if (this.transitionSettings.glide) {
+            this.glideWeight(component.promptId, weight);
+            return;
+        }
+        this.weightTransitions.cancel(component.promptId);
+        component.weight = weight;
         this.musicComponents.set(component.promptId, component);
         this.setSessionMusicComponents();
         this.requestUpdate('musicComponents');
@@ -443,15 +1427,15 @@ export class WordMusicGame extends LitElement {
         if (this.playbackState === 'playing') {
             this.pauseAudio();
         } else if (this.playbackState === 'paused' || this.playbackState === 'stopped') {
-            if (this.connectionError || !this.session) {
-                this.toastMessage.show("Reconnecting...", 2000);
-                await this.connectToSession();
-                if (!this.connectionError && this.session) {
-                    await this.setSessionMusicComponents();
-                    this.loadAudio();
+            if (!this.session) {
+                // Playback starts from restoreSession() once the session is back.
+                this.resumeAfterReconnect = true;
+                const state = this.connectionStatus?.state;
+                if (state === 'connecting' || state === 'reconnecting') {
+                    this.toastMessage.show("Still connecting. Playback will start once connected.", 2000);
                 } else {
-                    this.toastMessage.show("Failed to reconnect. Please try again.", 3000);
-                    this.playbackState = 'stopped';
+                    this.toastMessage.show("Reconnecting...", 2000);
+                    await this.connection.connect();
                 }
             } else {
                 this.loadAudio();
@@ -470,11 +1454,13 @@ export class WordMusicGame extends LitElement {
             this.outputNode.gain.setValueAtTime(this.outputNode.gain.value, this.audioContext.currentTime);
             this.outputNode.gain.linearRampToValueAtTime(0, this.audioContext.currentTime + 0.2);
         }
-        this.nextStartTime = 0;
+        this.playoutBuffer.reset();
+        this.beatClock.stop();
+        this.scheduler.flush();
 
         this.outputNode.disconnect();
         this.outputNode = this.audioContext.createGain();
-        this.outputNode.connect(this.audioContext.destination);
+        this.outputNode.connect(this.effectsRack.input);
     }
 
     private loadAudio() {
@@ -497,10 +1483,56 @@ export class WordMusicGame extends LitElement {
             this.outputNode.gain.setValueAtTime(this.outputNode.gain.value, this.audioContext.currentTime);
             this.outputNode.gain.linearRampToValueAtTime(0, this.audioContext.currentTime + 0.2);
         }
-        this.nextStartTime = 0;
+        this.playoutBuffer.reset();
+        this.beatClock.stop();
+        this.scheduler.flush();
         this.outputNode.disconnect();
         this.outputNode = this.audioContext.createGain();
-        this.outputNode.connect(this.audioContext.destination);
+        this.outputNode.connect(this.effectsRack.input);
+    }
+
+    private handleRecordClick() {
+        if (this.recorder.recording) {
+            this.recorder.stop();
+            this.recording = false;
+            if (this.recorder.hasAudio) {
+                this.showRecordingPanel = true;
+            } else {
+                this.toastMessage.show('Nothing was recorded. Press play first.', 3000);
+            }
+            return;
+        }
+        this.recorder.start();
+        this.recording = true;
+        this.recordedSeconds = 0;
+        this.showRecordingPanel = false;
+        if (this.playbackState !== 'playing' && this.playbackState !== 'loading') {
+            this.toastMessage.show('Recording: audio is captured while the music plays.', 3000);
+        }
+    }
+
+    private handleRecordingExport(e: CustomEvent<RecordingTrim>) {
+        const { start, end } = e.detail;
+        const words = [...this.musicComponents.values()].map(c => `${c.text} (${c.weight.toFixed(2)})`);
+        const now = new Date();
+        const wav = encodeWav(this.recorder.getChannels(start, end), this.recorder.sampleRate, {
+            title: `Word Music Game – ${words.map(w => w.split(' ')[0]).join(', ') || 'untitled'}`,
+            comment: JSON.stringify({ words, settings: this.generationConfig }),
+            software: 'Word Music Game',
+            date: now.toISOString().slice(0, 10),
+        });
+        const url = URL.createObjectURL(wav);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `word-music-${now.toISOString().slice(0, 19).replace(/[:T]/g, '-')}.wav`;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+        this.toastMessage.show('Recording exported.', 2000);
+    }
+
+    private handleRecordingDiscard() {
+        this.recorder.clear();
+        this.showRecordingPanel = false;
     }
 
     private handleGuessSubmit() {
@@ -511,22 +1543,48 @@ export class WordMusicGame extends LitElement {
         const guess = this.guessInputEl.value.trim().toUpperCase();
         if (!guess) return;
 
-        if (guess === this.currentWordToGuess) {
-            this.toastMessage.show(`Correct: ${this.currentWordToGuess}!`, 2000);
+        const entry = this.availableWords[this.currentWordIndex];
+        const match = matchGuess(guess, entry, {
+            ...DEFAULT_MATCH_OPTIONS,
+            maxEditDistance: this.difficultyPreset.maxEditDistance,
+        });
+        if (match.rule) {
+            const { state, points } = scoreCorrectGuess(this.scoreState, entry.answer, performance.now() - this.roundStartedAt, match.rule);
+            this.scoreState = state;
+            this.toastMessage.show(`Correct: ${this.currentWordToGuess}! +${points}${WordMusicGame.describeMatchRule(match.rule, guess)}`, 2000);
             const newComponentId = `component-${this.nextComponentId++}`;
             const usedColors = [...this.musicComponents.values()].map(c => c.color);
             const newComponent: MusicComponentData = {
                 promptId: newComponentId,
                 text: this.currentWordToGuess,
-                weight: 0.5,
-                color: getUnusedRandomColor(usedColors),
+                prompt: getMusicPrompt(entry),
+                weight: 0,
+                color: getUnusedRandomColor(usedColors, this.roundRandom),
             };
             this.musicComponents.set(newComponentId, newComponent);
-            this.setSessionMusicComponents();
+            this.recordComponentAdded(newComponent, NEW_COMPONENT_WEIGHT);
+            this.scheduler.schedule(`add:${newComponentId}`, () => this.glideWeight(newComponentId, NEW_COMPONENT_WEIGHT));
             this.fetchNextWord();
             this.requestUpdate('musicComponents');
         } else {
-            this.toastMessage.show('Incorrect guess. Try again!', 2000);
+            // Near misses still use up an attempt but cost no points and keep the streak.
+            const penalty = match.nearMiss ? 0 : this.difficultyPreset.wrongGuessPenalty;
+            if (!match.nearMiss) {
+                this.scoreState = scoreWrongGuess(this.scoreState, penalty);
+            }
+            this.attempts = [...this.attempts, createAttempt(guess, this.currentWordToGuess)];
+            if (this.attempts.length >= this.difficultyPreset.maxAttempts) {
+                this.toastMessage.show(`Out of attempts! The word was ${this.currentWordToGuess}`, 2500);
+                this.scoreState = scoreSkip(this.scoreState);
+                this.fetchNextWord();
+                this.guessInputEl.value = '';
+                return;
+            }
+            if (match.nearMiss) {
+                this.toastMessage.show('So close! Check your spelling.', 2000);
+            } else {
+                this.toastMessage.show(`Incorrect guess. Try again!${penalty > 0 ? ` (-${penalty})` : ''}`, 2000);
+            }
             this.guessInputEl.select();
 
             this.guessInputEl.animate([
@@ -540,6 +1598,25 @@ export class WordMusicGame extends LitElement {
         this.guessInputEl.value = '';
     }
 
+    private static describeMatchRule(rule: MatchRule, guess: string): string {
+        switch (rule) {
+            case 'exact':
+            case 'diacritics':
+                return '';
+            case 'plural':
+                return ` (accepted "${guess}")`;
+            case 'synonym':
+                return ` (accepted synonym "${guess}")`;
+            case 'typo':
+                return ` (close enough: "${guess}")`;
+        }
+    }
+
+    private handleLetterKey(e: CustomEvent<string>) {
+        this.guessInputEl.value += e.detail;
+        this.guessInputEl.focus();
+    }
+
     private handleGuessInputKeydown(e: KeyboardEvent) {
         if (e.key === 'Enter') {
             this.handleGuessSubmit();
@@ -549,16 +1626,211 @@ export class WordMusicGame extends LitElement {
     private handleMusicComponentRemoved(e: CustomEvent<string>) {
         e.stopPropagation();
         const componentIdToRemove = e.detail;
-        if (this.musicComponents.has(componentIdToRemove)) {
-            this.musicComponents.delete(componentIdToRemove);
-            this.filteredComponents.delete(componentIdToRemove);
-            this.setSessionMusicComponents();
-            this.requestUpdate('musicComponents');
+        const component = this.musicComponents.get(componentIdToRemove);
+        if (component) {
+            // Already fading out, or waiting for the boundary to do so.
+            if (this.removingComponents.has(componentIdToRemove) || this.scheduler.has(`remove:${componentIdToRemove}`)) return;
+            this.recordComponentRemoved(component);
+            this.scheduler.schedule(`remove:${componentIdToRemove}`, () => this.fadeOutComponent(componentIdToRemove));
         } else {
             console.warn(`Attempted to remove non-existent component ID: ${componentIdToRemove}`);
         }
     }
 
+    /** Puts a component back at its old position in the mix. */
+    private insertMusicComponent(component: MusicComponentData, index: number, filtered: boolean) {
+        this.cancelPendingChanges(component.promptId);
+        this.weightTransitions.cancel(component.promptId);
+        this.removingComponents.delete(component.promptId);
+        // Drop the old entry first in case it is still fading out.
+        const entries = [...this.musicComponents.entries()].filter(([id]) => id !== component.promptId);
+        entries.splice(index, 0, [component.promptId, component]);
+        this.musicComponents = new Map(entries);
+        if (filtered) this.filteredComponents.add(component.promptId);
+    }
+
+    private deleteMusicComponent(promptId: string) {
+        this.cancelPendingChanges(promptId);
+        this.weightTransitions.cancel(promptId);
+        this.automation.detach(weightTarget(promptId));
+        this.removingComponents.delete(promptId);
+        this.musicComponents.delete(promptId);
+        this.filteredComponents.delete(promptId);
+        this.setSessionMusicComponents();
+        this.requestUpdate('musicComponents');
+    }
+
+    /**
+     * Drops a quantized add or remove that has not reached its boundary yet, so
+     * it cannot fire after undo/redo has already changed the component.
+     */
+    private cancelPendingChanges(promptId: string) {
+        this.scheduler.cancel(`add:${promptId}`);
+        this.scheduler.cancel(`remove:${promptId}`);
+    }
+
+    private recordComponentAdded(component: MusicComponentData, weight: number) {
+        const index = this.musicComponents.size - 1;
+        this.history.push({
+            label: `add ${component.text}`,
+            undo: () => {
+                this.cancelPendingChanges(component.promptId);
+                this.fadeOutComponent(component.promptId);
+            },
+            redo: () => {
+                this.cancelPendingChanges(component.promptId);
+                this.fadeInComponent(component, index, false, weight);
+            },
+        });
+    }
+
+    private recordComponentRemoved(component: MusicComponentData) {
+        const index = [...this.musicComponents.keys()].indexOf(component.promptId);
+        const filtered = this.filteredComponents.has(component.promptId);
+        const weight = this.weightTransitions.target(component.promptId) ?? component.weight;
+        this.history.push({
+            label: `remove ${component.text}`,
+            undo: () => {
+                this.cancelPendingChanges(component.promptId);
+                this.fadeInComponent(component, index, filtered, weight);
+            },
+            redo: () => {
+                this.cancelPendingChanges(component.promptId);
+                this.fadeOutComponent(component.promptId);
+            },
+        });
+    }
+
+    private recordWeightChange(promptId: string, text: string, from: number, to: number) {
+        const setWeight = (weight: number) => {
+            if (!this.musicComponents.has(promptId) || this.removingComponents.has(promptId)) return;
+            this.glideWeight(promptId, weight);
+        };
+        this.history.push({
+            label: `${text} weight`,
+            mergeKey: `weight:${promptId}`,
+            undo: () => setWeight(from),
+            redo: () => setWeight(to),
+        });
+    }
+
+    private recordSettingsChange(from: LiveMusicGenerationConfig, to: LiveMusicGenerationConfig) {
+        const changedKeys = (Object.keys({ ...from, ...to }) as (keyof LiveMusicGenerationConfig)[])
+            .filter(key => from[key] !== to[key]);
+        if (changedKeys.length === 0) return;
+        // Slider drags merge into one step; toggles and selects each get their own.
+        const isContinuous = changedKeys.every(key => typeof to[key] === 'number');
+        this.history.push({
+            label: changedKeys.join(', '),
+            mergeKey: isContinuous ? `settings:${changedKeys.join(',')}` : undefined,
+            undo: () => this.applyConfigWithoutHistory(from),
+            redo: () => this.applyConfigWithoutHistory(to),
+        });
+    }
+
+    private applyConfigWithoutHistory(config: LiveMusicGenerationConfig) {
+        this.suppressHistory = true;
+        try {
+            this.settingsController.setConfig(config);
+        } finally {
+            this.suppressHistory = false;
+        }
+    }
+
+    /** Applies a recalled preset's settings and effects, undone together in one step. */
+    private handlePresetApplied(e: CustomEvent<SettingsPreset>) {
+        const { name, config, effects } = e.detail;
+        const fromConfig = this.generationConfig;
+        const fromEffects = this.effects;
+        const apply = (toConfig: LiveMusicGenerationConfig, toEffects: EffectsSettings) => {
+            this.applyConfigWithoutHistory(toConfig);
+            this.applyEffects(toEffects);
+        };
+        apply(config, effects ?? fromEffects);
+        this.history.push({
+            label: `preset ${name}`,
+            undo: () => apply(fromConfig, fromEffects),
+            redo: () => apply(config, effects ?? fromEffects),
+        });
+    }
+
+    private handleEffectsChanged(e: CustomEvent<EffectsSettings>) {
+        const previous = this.effects;
+        this.applyEffects(e.detail);
+        this.recordEffectsChange(previous, e.detail);
+    }
+
+    private applyEffects(settings: EffectsSettings) {
+        this.effects = settings;
+        this.effectsRack.apply(settings);
+        saveEffects(settings);
+    }
+
+    private recordEffectsChange(from: EffectsSettings, to: EffectsSettings) {
+        const changed: string[] = [];
+        let isContinuous = true;
+        for (const id of Object.keys(to) as (keyof EffectsSettings)[]) {
+            const before = from[id] as unknown as Record<string, unknown>;
+            const after = to[id] as unknown as Record<string, unknown>;
+            for (const key of Object.keys(after)) {
+                if (before[key] === after[key]) continue;
+                changed.push(`${id} ${key}`);
+                if (typeof after[key] !== 'number') isContinuous = false;
+            }
+        }
+        if (changed.length === 0) return;
+        this.history.push({
+            label: changed.join(', '),
+            mergeKey: isContinuous ? `effects:${changed.join(',')}` : undefined,
+            undo: () => this.applyEffects(from),
+            redo: () => this.applyEffects(to),
+        });
+    }
+
+    private handleEditCommitted() {
+        this.history.closeMerge();
+    }
+
+    private undo() {
+        const command = this.history.undo();
+        if (!command) return;
+        this.toastMessage.show(`Undo: ${command.label}`, 1500);
+        this.syncSessionAfterHistory();
+    }
+
+    private redo() {
+        const command = this.history.redo();
+        if (!command) return;
+        this.toastMessage.show(`Redo: ${command.label}`, 1500);
+        this.syncSessionAfterHistory();
+    }
+
+    private syncSessionAfterHistory() {
+        this.setSessionMusicComponents();
+        this.sendSettings();
+    }
+
+    /** Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes. Editable fields keep their native undo. */
+    private handleGlobalKeydown = (e: KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+        if (WordMusicGame.isEditable(e.composedPath()[0])) return;
+        const key = e.key.toLowerCase();
+        if (key === 'z') {
+            e.preventDefault();
+            if (e.shiftKey) this.redo(); else this.undo();
+        } else if (key === 'y') {
+            e.preventDefault();
+            this.redo();
+        }
+    };
+
+    /** Fields with their own undo: every input except sliders and checkboxes, text areas, selects and contenteditable. */
+    private static isEditable(target: EventTarget | undefined): boolean {
+        if (target instanceof HTMLInputElement) return target.type !== 'range' && target.type !== 'checkbox';
+        if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+        return target instanceof HTMLElement && target.isContentEditable;
+    }
+
     private handlePromptsContainerWheel(e: WheelEvent) {
         const container = e.currentTarget as HTMLElement;
         if (e.deltaY !== 0 && e.deltaX === 0) {
@@ -575,35 +1847,52 @@ export class WordMusicGame extends LitElement {
     }
 
 
-    private updateSettings = throttle(async (e: CustomEvent<LiveMusicGenerationConfig>) => {
-        if (this.session) {
-            await this.session.setMusicGenerationConfig({
-                musicGenerationConfig: e.detail,
-            });
+    private handleSettingsChanged(e: CustomEvent<LiveMusicGenerationConfig>) {
+        const previous = this.generationConfig;
+        this.generationConfig = e.detail;
+        if (!this.suppressHistory) {
+            this.recordSettingsChange(previous, e.detail);
         }
-    }, 200);
+        this.roundTimer.setBeatDuration(this.beatDurationMs);
+        this.beatClock.setBpm(this.sessionConfig.bpm ?? DEFAULT_BPM);
+        this.scheduler.schedule('settings', () => this.sendSettings());
+    }
+
+    private handleQuantizeChange(e: Event) {
+        this.quantize = (e.target as HTMLSelectElement).value as Quantize;
+        this.scheduler.quantize = this.quantize;
+        saveQuantize(this.quantize);
+        if (this.quantize === 'off') this.scheduler.flush();
+    }
 
     private async handleReset() {
         this.toastMessage.show("Resetting game and music...", 2000);
-        if (this.connectionError || !this.session) {
-            await this.connectToSession();
+        clearSavedGame();
+        this.savedGame = null;
+        if (!this.session) {
+            await this.connection.connect();
         }
         this.pauseAudio();
 
+        this.automation.clear();
         this.initializeGame();
         this.settingsController.resetToDefaults();
+        if (this.gameMode === 'daily') {
+            this.applyModeSeed();
+        }
+        this.history.clear();
 
         if (this.session) {
             this.session.resetContext();
 
             await this.session.setMusicGenerationConfig({
-                musicGenerationConfig: this.settingsController['defaultConfig'],
+                musicGenerationConfig: this.generationConfig,
             });
         }
 
         if (this.playbackState !== 'stopped') {
             setTimeout(() => {
-                if (this.playbackState === 'paused' && !this.connectionError && this.session) {
+                if (this.playbackState === 'paused' && this.session) {
 
                 }
             }, 300);
@@ -611,18 +1900,41 @@ export class WordMusicGame extends LitElement {
     }
 
     override render() {
+        // The visualizer paints the same blobs itself; the static copy is only for reduced motion.
         const bgStyles = styleMap({
-            backgroundImage: this.makeBackground(),
+            backgroundImage: this.reducedMotion ? this.makeBackground() : 'none',
         });
 
         return html`
-      <div id="background-effects" style=${bgStyles}></div>
+      <div id="background-effects" style=${bgStyles}>
+        ${this.reducedMotion ? '' : html`<audio-visualizer
+          .analyser=${this.analyser}
+          .components=${[...this.musicComponents.values()]}
+          ?active=${this.playbackState === 'playing'}
+          .lowPower=${this.lowPowerDevice}>
+        </audio-visualizer>`}
+      </div>
 
       <div class="game-area">
-        <div class="word-display" aria-live="polite">${this.currentWordToGuess}</div>
+        ${this.savedGame && this.isGamePristine ? this.renderResumeBanner(this.savedGame) : ''}
+        ${this.isGamePristine || this.gameWon ? this.renderGameSetup() : ''}
+        ${this.renderPuzzle()}
         <div class="stats">
-            Words Left: ${this.availableWords.length - this.currentWordIndex - 1}
+            <span>Words Left: ${this.availableWords.length - this.currentWordIndex - 1}</span>
+            <span class="score">Score: ${this.scoreState.score}</span>
+            <span>Streak: ${this.scoreState.streak}</span>
+            <span class="multiplier">×${getMultiplier(this.scoreState).toFixed(2)}</span>
+            <label class="timed-toggle">
+              <input type="checkbox" .checked=${this.timedMode} @change=${this.handleTimedModeChange} ?disabled=${this.gameWon} />
+              Timed
+            </label>
         </div>
+        ${this.timedMode && !this.gameWon ? html`<beat-countdown
+          .beatsLeft=${this.beatsLeft}
+          .totalBeats=${this.difficultyPreset.roundBars * BEATS_PER_BAR}
+          .beatsPerBar=${BEATS_PER_BAR}
+          ?paused=${this.playbackState !== 'playing'}>
+        </beat-countdown>` : ''}
         <div class="guess-container">
           <input
             type="text"
@@ -634,44 +1946,240 @@ export class WordMusicGame extends LitElement {
           <button id="guess-button" @click=${this.handleGuessSubmit} ?disabled=${this.gameWon}>
             Guess
           </button>
+          <button
+            id="reveal-button"
+            @click=${this.revealHintLetter}
+            ?disabled=${!this.canRevealHint}>
+            Reveal (${this.hintsLeft})
+          </button>
           <button id="skip-button" @click=${this.skipWord} ?disabled=${this.gameWon}>
             Skip
           </button>
         </div>
+        <guess-history .attempts=${this.attempts} .maxAttempts=${this.difficultyPreset.maxAttempts}></guess-history>
+        ${this.attempts.length > 0 ? html`<letter-keyboard
+          .letterStatuses=${getLetterStatuses(this.attempts)}
+          @letter-key=${this.handleLetterKey}>
+        </letter-keyboard>` : ''}
       </div>
 
       <div id="music-components-area">
+        <div class="transition-controls">
+          <label>
+            Transitions
+            <span>
+              <input
+                type="number"
+                min="0"
+                max="32"
+                step="0.5"
+                .value=${String(this.transitionSettings.amount)}
+                @change=${this.handleTransitionAmountChange}
+                aria-label="Transition length" />
+              <select .value=${this.transitionSettings.unit} @change=${this.handleTransitionUnitChange} aria-label="Transition unit">
+                <option value="seconds" ?selected=${this.transitionSettings.unit === 'seconds'}>s</option>
+                <option value="bars" ?selected=${this.transitionSettings.unit === 'bars'}>bars</option>
+              </select>
+            </span>
+          </label>
+          <label class="glide-toggle">
+            <input type="checkbox" .checked=${this.transitionSettings.glide} @change=${this.handleGlideChange} />
+            Glide sliders
+          </label>
+          <scene-crossfader
+            ?hasA=${this.scenes.a !== undefined}
+            ?hasB=${this.scenes.b !== undefined}
+            .position=${this.crossfadePosition}
+            @scene-stored=${this.handleSceneStored}
+            @crossfade=${this.handleCrossfade}>
+          </scene-crossfader>
+        </div>
         <div id="music-components-container"
              @music-component-removed=${this.handleMusicComponentRemoved}
+             @music-component-weight-committed=${this.handleEditCommitted}
+             @automation-changed=${this.handleAutomationChanged}
+             @midi-learn=${this.handleMidiLearn}
              @wheel=${this.handlePromptsContainerWheel}>
           ${this.renderMusicComponents()}
         </div>
       </div>
 
       <div id="settings-area-container">
-        <settings-controller @settings-changed=${this.updateSettings}></settings-controller>
+        <settings-controller
+          .effects=${this.effects}
+          .automation=${this.automationStates}
+          ?midiLearning=${this.midiLearning}
+          .midiArmed=${this.midiArmed}
+          .midiBindings=${this.midiBindings}
+          @midi-learn=${this.handleMidiLearn}
+          @settings-changed=${this.handleSettingsChanged}
+          @preset-applied=${this.handlePresetApplied}
+          @automation-changed=${this.handleAutomationChanged}
+          @effects-changed=${this.handleEffectsChanged}
+          @settings-committed=${this.handleEditCommitted}>
+        </settings-controller>
+        <effects-panel
+          .settings=${this.effects}
+          @effects-changed=${this.handleEffectsChanged}
+          @effects-committed=${this.handleEditCommitted}>
+        </effects-panel>
+        <midi-panel
+          .status=${this.midiStatus}
+          .inputs=${this.midiInputs}
+          ?learning=${this.midiLearning}
+          .armed=${this.midiArmed}
+          .bindings=${this.midiBindings}
+          .describeTarget=${this.describeMidiTarget}
+          @midi-enable=${this.handleMidiEnable}
+          @midi-learn-toggle=${this.handleMidiLearnToggle}
+          @midi-learn=${this.handleMidiLearn}
+          @midi-binding-removed=${this.handleMidiBindingRemoved}
+          @midi-virtual-message=${this.handleMidiVirtualMessage}>
+        </midi-panel>
       </div>
 
       <div class="playback-controls-container">
+        <div class="history-controls">
+          <button
+            @click=${this.undo}
+            ?disabled=${!this.history.canUndo}
+            title=${this.history.canUndo ? `Undo ${this.history.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}>↶ Undo</button>
+          <button
+            @click=${this.redo}
+            ?disabled=${!this.history.canRedo}
+            title=${this.history.canRedo ? `Redo ${this.history.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}>↷ Redo</button>
+        </div>
         <play-pause-button
           @click=${this.handlePlayPause}
           .playbackState=${this.playbackState}
           aria-label=${this.playbackState === 'playing' ? 'Pause music' : 'Play music'}>
         </play-pause-button>
+        <record-button
+          @click=${this.handleRecordClick}
+          .recording=${this.recording}
+          aria-label=${this.recording ? 'Stop recording' : 'Record the mix'}>
+        </record-button>
+        ${this.recording ? html`<span class="recording-time">${this.recordedSeconds.toFixed(1)}s</span>` : ''}
         <reset-button @click=${this.handleReset} aria-label="Reset game and music settings"></reset-button>
+        <div class="status-indicators">
+          <connection-status-indicator
+            .status=${this.connectionStatus}
+            @connection-retry=${this.handleConnectionRetry}>
+          </connection-status-indicator>
+          <buffer-health-indicator .buffer=${this.playoutBuffer}></buffer-health-indicator>
+        </div>
+        <label class="quantize-select">
+          Quantize changes${this.pendingChanges > 0 ? ` · ${this.pendingChanges} queued` : ''}
+          <select .value=${this.quantize} @change=${this.handleQuantizeChange}>
+            ${(Object.keys(QUANTIZE_LABELS) as Quantize[]).map(q => html`<option
+              value=${q}
+              ?selected=${q === this.quantize}>${QUANTIZE_LABELS[q]}</option>`)}
+          </select>
+        </label>
+        <label class="backend-select">
+          Music engine
+          <select .value=${this.musicBackend} @change=${this.handleBackendChange}>
+            ${(Object.keys(MUSIC_PROVIDERS) as MusicBackendId[]).map(id => html`<option
+              value=${id}
+              ?selected=${id === this.musicBackend}>${MUSIC_PROVIDERS[id].label}</option>`)}
+          </select>
+        </label>
       </div>
+      ${this.gameWon ? html`<game-over-summary
+        .scoreState=${this.scoreState}
+        .highScores=${this.highScores}
+        .rank=${this.highScoreRank}
+        .shareText=${this.shareText}
+        @play-again=${this.handleReset}>
+      </game-over-summary>` : ''}
+      ${this.showRecordingPanel ? html`<div class="recording-panel-container">
+        <recording-panel
+          .duration=${this.recorder.duration}
+          .maxDuration=${this.recorder.maxSeconds}
+          @recording-export=${this.handleRecordingExport}
+          @recording-discard=${this.handleRecordingDiscard}>
+        </recording-panel>
+      </div>` : ''}
       <toast-message></toast-message>
     `;
     }
 
+    private renderResumeBanner(saved: SavedGame) {
+        const wordNumber = saved.currentWordIndex + 1;
+        return html`<div class="resume-banner" role="region" aria-label="Resume saved game">
+          <span>Resume your game from ${new Date(saved.savedAt).toLocaleString()}? Word ${wordNumber}/${saved.availableWords.length}, score ${saved.scoreState.score}.</span>
+          <button class="primary" @click=${this.handleResumeClick}>Resume</button>
+          <button @click=${this.handleDiscardSave}>Discard</button>
+        </div>`;
+    }
+
+    private renderGameSetup() {
+        return html`<div class="game-setup">
+          <label class="setup-select">
+            Mode
+            <select .value=${this.gameMode} @change=${this.handleGameModeChange}>
+              <option value="classic" ?selected=${this.gameMode === 'classic'}>Classic</option>
+              <option value="daily" ?selected=${this.gameMode === 'daily'}>Daily challenge</option>
+            </select>
+          </label>
+          ${this.gameMode === 'daily'
+            ? html`<div class="daily-banner">Daily challenge · ${this.dailyKey} · ${this.availableWords.length} words</div>`
+            : this.renderClassicSetup()}
+        </div>`;
+    }
+
+    private renderClassicSetup() {
+        return html`
+          <word-pack-picker
+            .packs=${this.wordPacks}
+            .selectedPackId=${this.selectedPackId}
+            @word-pack-selected=${this.handleWordPackSelected}
+            @word-pack-url-submitted=${this.handleWordPackUrlSubmitted}>
+          </word-pack-picker>
+          <label class="setup-select">
+            Difficulty
+            <select .value=${this.difficulty} @change=${this.handleDifficultyChange}>
+              ${(Object.keys(DIFFICULTY_PRESETS) as DifficultyLevel[]).map(level => html`<option
+                value=${level}
+                ?selected=${level === this.difficulty}>${DIFFICULTY_PRESETS[level].label}</option>`)}
+            </select>
+          </label>`;
+    }
+
+    private renderPuzzle() {
+        const puzzle = this.currentPuzzle;
+        if (!puzzle) {
+            return html`<div class="word-display" aria-live="polite">${this.currentWordToGuess}</div>`;
+        }
+        const displayClasses = classMap({
+            'word-display': true,
+            'clue': puzzle.type === 'clue',
+        });
+        return html`
+        <div class="puzzle-label">${PUZZLE_LABELS[puzzle.type]}</div>
+        <div class=${displayClasses} aria-live="polite">${getPuzzlePrompt(puzzle)}</div>
+        <div class="puzzle-hint">${getPuzzleHint(puzzle)}</div>`;
+    }
+
     private renderMusicComponents() {
+        const mappable = this.mappableComponents;
         return [...this.musicComponents.values()].map((component) => {
+            const index = mappable.indexOf(component);
+            const midiTarget: MidiTarget | null = this.midiLearning && index >= 0 ? `component:${index}` : null;
             return html`<music-component-controller
         .promptId=${component.promptId}
         .text=${component.text}
+        .prompt=${component.prompt}
         .weight=${component.weight}
         .color=${component.color}
         ?filtered=${this.filteredComponents.has(component.promptId)}
+        .glide=${this.transitionSettings.glide}
+        .target=${this.weightTransitions.target(component.promptId) ?? null}
+        ?removing=${this.removingComponents.has(component.promptId)}
+        .automation=${this.automationStates.get(weightTarget(component.promptId)) ?? null}
+        .midiTarget=${midiTarget}
+        ?midiArmed=${midiTarget !== null && this.midiArmed === midiTarget}
+        .midiSource=${midiTarget ? findMidiSource(this.midiBindings, midiTarget) : undefined}
         @music-component-changed=${this.handleMusicComponentChanged}>
       </music-component-controller>`;
         });
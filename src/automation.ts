@@ -0,0 +1,195 @@
+import { type LiveMusicGenerationConfig } from '@google/genai';
+import { BEATS_PER_BAR } from './constants';
+import { RandomSource } from './random';
+
+export type LfoShape = 'sine' | 'triangle' | 'random' | 'ramp';
+export type LfoRateUnit = 'bars' | 'seconds';
+
+export const LFO_SHAPE_LABELS: Record<LfoShape, string> = {
+    sine: 'Sine',
+    triangle: 'Triangle',
+    random: 'Random',
+    ramp: 'Ramp',
+};
+
+/** One LFO cycle lasts `rate` bars or seconds and sweeps between `min` and `max`. */
+export interface LfoSettings {
+    shape: LfoShape;
+    rate: number;
+    unit: LfoRateUnit;
+    min: number;
+    max: number;
+}
+
+export interface ParameterRange {
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+}
+
+/**
+ * Config fields an LFO can drive, with the range the settings panel allows.
+ * The seed is numeric but is an identifier, so sweeping it means nothing.
+ */
+export const AUTOMATABLE_FIELDS = {
+    temperature: { label: 'Temperature', min: 0, max: 3, step: 0.1 },
+    guidance: { label: 'Guidance', min: 0, max: 6, step: 0.1 },
+    topK: { label: 'Top K', min: 1, max: 100, step: 1 },
+    bpm: { label: 'BPM', min: 60, max: 180, step: 1 },
+    density: { label: 'Density', min: 0, max: 1, step: 0.05 },
+    brightness: { label: 'Brightness', min: 0, max: 1, step: 0.05 },
+} satisfies Record<string, ParameterRange>;
+
+export type AutomatableField = keyof typeof AUTOMATABLE_FIELDS & keyof LiveMusicGenerationConfig;
+
+export const WEIGHT_RANGE: ParameterRange = { label: 'Weight', min: 0, max: 2, step: 0.01 };
+
+/** What an LFO drives: a generation config field or the weight of one music component. */
+export type AutomationTarget = `config:${AutomatableField}` | `weight:${string}`;
+
+export function configTarget(field: AutomatableField): AutomationTarget {
+    return `config:${field}`;
+}
+
+export function weightTarget(promptId: string): AutomationTarget {
+    return `weight:${promptId}`;
+}
+
+/** An attached LFO together with the value it produced on the last step. */
+export interface AutomationState {
+    settings: LfoSettings;
+    value: number;
+}
+
+/** Detail of `automation-changed`: settings to attach, or null to remove the LFO. */
+export interface AutomationChange {
+    target: AutomationTarget;
+    settings: LfoSettings | null;
+}
+
+/** A gentle default that sweeps the middle half of the range once every four bars. */
+export function defaultLfoSettings(range: ParameterRange): LfoSettings {
+    const quarter = (range.max - range.min) / 4;
+    return { shape: 'sine', rate: 4, unit: 'bars', min: range.min + quarter, max: range.max - quarter };
+}
+
+/** Position of the wave at `phase` (0..1), from 0 to 1. Sine starts at its low point. */
+function shapeAt(shape: LfoShape, phase: number, held: number): number {
+    switch (shape) {
+        case 'sine': return 0.5 - 0.5 * Math.cos(2 * Math.PI * phase);
+        case 'triangle': return 1 - Math.abs(2 * phase - 1);
+        case 'ramp': return phase;
+        case 'random': return held;
+    }
+}
+
+/** Returns `config` with the automated fields replaced by their current LFO values. */
+export function applyConfigAutomation(
+    config: LiveMusicGenerationConfig,
+    states: ReadonlyMap<AutomationTarget, AutomationState>,
+): LiveMusicGenerationConfig {
+    const result = { ...config };
+    for (const field of Object.keys(AUTOMATABLE_FIELDS) as AutomatableField[]) {
+        const state = states.get(configTarget(field));
+        if (!state) continue;
+        const { step } = AUTOMATABLE_FIELDS[field];
+        result[field] = step >= 1 ? Math.round(state.value) : state.value;
+    }
+    return result;
+}
+
+interface RunningLfo {
+    settings: LfoSettings;
+    phase: number;
+    held: number; // Sample-and-hold level for the random shape, redrawn every cycle
+    value: number;
+}
+
+/**
+ * Runs LFOs on a fixed tick and reports every automated value at once, so the
+ * caller can push one session update per tick. Phase advances incrementally,
+ * so a tempo change alters the speed without making the wave jump.
+ */
+export class AutomationEngine {
+    private lfos = new Map<AutomationTarget, RunningLfo>();
+    private intervalId: number | undefined;
+    private lastTickAt = 0;
+
+    constructor(
+        private readonly getBeatMs: () => number,
+        private readonly onStep: (states: ReadonlyMap<AutomationTarget, AutomationState>) => void,
+        private readonly stepMs = 200,
+        private readonly random: RandomSource = Math.random,
+    ) { }
+
+    get active(): boolean {
+        return this.lfos.size > 0;
+    }
+
+    /** Attaches an LFO to `target`, or updates the one already there without restarting it. */
+    attach(target: AutomationTarget, settings: LfoSettings) {
+        const lfo = this.lfos.get(target) ?? { settings, phase: 0, held: this.random(), value: settings.min };
+        lfo.settings = settings;
+        lfo.value = this.valueOf(lfo);
+        this.lfos.set(target, lfo);
+        this.ensureRunning();
+        this.onStep(this.states);
+    }
+
+    detach(target: AutomationTarget) {
+        if (!this.lfos.delete(target)) return;
+        if (this.lfos.size === 0) this.stop();
+        this.onStep(this.states);
+    }
+
+    clear() {
+        if (this.lfos.size === 0) return;
+        this.lfos.clear();
+        this.stop();
+        this.onStep(this.states);
+    }
+
+    /** Snapshot of every attached LFO and its current value. */
+    get states(): ReadonlyMap<AutomationTarget, AutomationState> {
+        const states = new Map<AutomationTarget, AutomationState>();
+        this.lfos.forEach(({ settings, value }, target) => states.set(target, { settings, value }));
+        return states;
+    }
+
+    private periodMs(settings: LfoSettings): number {
+        const ms = settings.unit === 'bars' ? settings.rate * BEATS_PER_BAR * this.getBeatMs() : settings.rate * 1000;
+        return Math.max(this.stepMs, ms);
+    }
+
+    private valueOf(lfo: RunningLfo): number {
+        const { shape, min, max } = lfo.settings;
+        return min + (max - min) * shapeAt(shape, lfo.phase, lfo.held);
+    }
+
+    private ensureRunning() {
+        if (this.intervalId !== undefined) return;
+        this.lastTickAt = performance.now();
+        this.intervalId = window.setInterval(() => this.tick(), this.stepMs);
+    }
+
+    private stop() {
+        window.clearInterval(this.intervalId);
+        this.intervalId = undefined;
+    }
+
+    private tick() {
+        const now = performance.now();
+        const elapsed = now - this.lastTickAt;
+        this.lastTickAt = now;
+        this.lfos.forEach(lfo => {
+            lfo.phase += elapsed / this.periodMs(lfo.settings);
+            if (lfo.phase >= 1) {
+                lfo.phase %= 1;
+                lfo.held = this.random();
+            }
+            lfo.value = this.valueOf(lfo);
+        });
+        this.onStep(this.states);
+    }
+}
@@ -0,0 +1,190 @@
+import { BEATS_PER_BAR, DEFAULT_BPM } from './constants';
+
+export type Quantize = 'off' | 'beat' | 'bar' | '4bars';
+
+export const QUANTIZE_LABELS: Record<Quantize, string> = {
+    off: 'Off',
+    beat: 'Next beat',
+    bar: 'Next bar',
+    '4bars': 'Next 4 bars',
+};
+
+const QUANTIZE_BEATS: Record<Quantize, number> = {
+    off: 0,
+    beat: 1,
+    bar: BEATS_PER_BAR,
+    '4bars': 4 * BEATS_PER_BAR,
+};
+
+const QUANTIZE_KEY = 'word-music-game.quantize';
+
+export function loadQuantize(): Quantize {
+    try {
+        const raw = localStorage.getItem(QUANTIZE_KEY);
+        return raw && raw in QUANTIZE_BEATS ? raw as Quantize : 'off';
+    } catch (e) {
+        console.warn('Could not read quantize setting:', e);
+        return 'off';
+    }
+}
+
+export function saveQuantize(quantize: Quantize) {
+    try {
+        localStorage.setItem(QUANTIZE_KEY, quantize);
+    } catch (e) {
+        console.warn('Could not save quantize setting:', e);
+    }
+}
+
+/**
+ * Tracks the beat position of what is audible, on the audio context's
+ * timeline. Beat 0 is where playback started; pausing freezes the position so
+ * a rebuffer does not shift the grid.
+ */
+export class BeatClock {
+    private anchorTime = 0; // Context time of `anchorBeat`
+    private anchorBeat = 0;
+    private currentBpm = DEFAULT_BPM;
+    private isRunning = false;
+    private isPaused = false;
+
+    constructor(private readonly context: BaseAudioContext) { }
+
+    get running(): boolean {
+        return this.isRunning;
+    }
+
+    get paused(): boolean {
+        return this.isPaused;
+    }
+
+    get bpm(): number {
+        return this.currentBpm;
+    }
+
+    private get secondsPerBeat(): number {
+        return 60 / this.currentBpm;
+    }
+
+    /** Starts counting from beat 0 at context time `at`. */
+    start(at: number = this.context.currentTime) {
+        this.anchorBeat = 0;
+        this.anchorTime = at;
+        this.isRunning = true;
+        this.isPaused = false;
+    }
+
+    /** Freezes the beat position, e.g. while the stream rebuffers. */
+    pause() {
+        if (!this.isRunning) return;
+        this.anchorBeat = this.beatAt(this.context.currentTime);
+        this.anchorTime = this.context.currentTime;
+        this.isRunning = false;
+        this.isPaused = true;
+    }
+
+    /** Continues from the frozen beat position at context time `at`. */
+    resume(at: number = this.context.currentTime) {
+        if (!this.isPaused) return;
+        this.anchorTime = at;
+        this.isRunning = true;
+        this.isPaused = false;
+    }
+
+    stop() {
+        this.isRunning = false;
+        this.isPaused = false;
+        this.anchorBeat = 0;
+    }
+
+    /** Changes tempo without moving the current beat position. */
+    setBpm(bpm: number) {
+        if (!(bpm > 0) || bpm === this.currentBpm) return;
+        if (this.isRunning) {
+            this.anchorBeat = this.beatAt(this.context.currentTime);
+            this.anchorTime = this.context.currentTime;
+        }
+        this.currentBpm = bpm;
+    }
+
+    beatAt(time: number = this.context.currentTime): number {
+        if (!this.isRunning) return this.anchorBeat;
+        return this.anchorBeat + (time - this.anchorTime) / this.secondsPerBeat;
+    }
+
+    timeOfBeat(beat: number): number {
+        return this.anchorTime + (beat - this.anchorBeat) * this.secondsPerBeat;
+    }
+
+    /** Context time of the first multiple of `beats` at or after `notBefore`. */
+    nextBoundary(beats: number, notBefore: number = this.context.currentTime): number {
+        const beat = this.beatAt(notBefore);
+        // A hair of tolerance so a time sitting on a boundary counts as that boundary.
+        const boundary = Math.ceil(beat / beats - 1e-6) * beats;
+        return this.timeOfBeat(boundary);
+    }
+}
+
+/**
+ * Defers musical changes to the next beat, bar or 4-bar boundary of a
+ * `BeatClock`. Changes are sent early by the lead time so they are heard on
+ * the boundary rather than queued behind audio that is already buffered.
+ * Actions scheduled under the same key replace each other, so only the latest
+ * settings reach the session.
+ */
+export class QuantizedScheduler {
+    quantize: Quantize = 'off';
+    private pending = new Map<string, { action: () => void, timeoutId: number }>();
+
+    constructor(
+        private readonly clock: BeatClock,
+        private readonly context: BaseAudioContext,
+        private readonly getLeadSeconds: () => number,
+        private readonly onPendingChange: () => void = () => { },
+    ) { }
+
+    get pendingCount(): number {
+        return this.pending.size;
+    }
+
+    /** Whether an action is waiting under `key`. */
+    has(key: string): boolean {
+        return this.pending.has(key);
+    }
+
+    schedule(key: string, action: () => void) {
+        this.cancel(key);
+        const beats = QUANTIZE_BEATS[this.quantize];
+        if (beats === 0 || !this.clock.running) {
+            action();
+            return;
+        }
+        const now = this.context.currentTime;
+        const lead = Math.max(0, this.getLeadSeconds());
+        const at = this.clock.nextBoundary(beats, now + lead);
+        const timeoutId = window.setTimeout(() => {
+            this.pending.delete(key);
+            this.onPendingChange();
+            action();
+        }, Math.max(0, (at - lead - now) * 1000));
+        this.pending.set(key, { action, timeoutId });
+        this.onPendingChange();
+    }
+
+    cancel(key: string) {
+        const entry = this.pending.get(key);
+        if (!entry) return;
+        window.clearTimeout(entry.timeoutId);
+        this.pending.delete(key);
+        this.onPendingChange();
+    }
+
+    /** Runs everything that is waiting right away, e.g. when playback stops. */
+    flush() {
+        const actions = [...this.pending.values()];
+        actions.forEach(({ timeoutId }) => window.clearTimeout(timeoutId));
+        this.pending.clear();
+        if (actions.length > 0) this.onPendingChange();
+        actions.forEach(({ action }) => action());
+    }
+}
@@ -0,0 +1,92 @@
+/** A reversible change to the mix. */
+export interface HistoryCommand {
+    readonly label: string; // Shown on the undo/redo buttons, e.g. "remove BLUES"
+    /**
+     * Consecutive commands with the same key are merged into one undo step while
+     * the merge is open, so a whole slider drag undoes at once.
+     */
+    readonly mergeKey?: string;
+    undo(): void;
+    redo(): void;
+}
+
+const DEFAULT_LIMIT = 100;
+
+/** Undo/redo stacks for mix edits. Commands are pushed after they have been applied. */
+export class CommandHistory {
+    private undoStack: HistoryCommand[] = [];
+    private redoStack: HistoryCommand[] = [];
+    private mergeOpen = false;
+
+    constructor(
+        private readonly onChange: () => void = () => { },
+        private readonly limit: number = DEFAULT_LIMIT,
+    ) { }
+
+    get canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    get canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    get undoLabel(): string | undefined {
+        return this.undoStack[this.undoStack.length - 1]?.label;
+    }
+
+    get redoLabel(): string | undefined {
+        return this.redoStack[this.redoStack.length - 1]?.label;
+    }
+
+    push(command: HistoryCommand) {
+        const top = this.undoStack[this.undoStack.length - 1];
+        if (this.mergeOpen && top && command.mergeKey !== undefined && top.mergeKey === command.mergeKey) {
+            // Keep the oldest "before" state and the newest "after" state.
+            this.undoStack[this.undoStack.length - 1] = {
+                label: command.label,
+                mergeKey: command.mergeKey,
+                undo: top.undo,
+                redo: command.redo,
+            };
+        } else {
+            this.undoStack.push(command);
+            if (this.undoStack.length > this.limit) this.undoStack.shift();
+        }
+        this.mergeOpen = command.mergeKey !== undefined;
+        this.redoStack = [];
+        this.onChange();
+    }
+
+    /** Ends the current merge, e.g. when a drag is released. */
+    closeMerge() {
+        this.mergeOpen = false;
+    }
+
+    undo(): HistoryCommand | undefined {
+        const command = this.undoStack.pop();
+        if (!command) return undefined;
+        this.mergeOpen = false;
+        command.undo();
+        this.redoStack.push(command);
+        this.onChange();
+        return command;
+    }
+
+    redo(): HistoryCommand | undefined {
+        const command = this.redoStack.pop();
+        if (!command) return undefined;
+        this.mergeOpen = false;
+        command.redo();
+        this.undoStack.push(command);
+        this.onChange();
+        return command;
+    }
+
+    clear() {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.mergeOpen = false;
+        this.onChange();
+    }
+}
@@ -0,0 +1,220 @@
+import { css, html, LitElement } from 'lit';
+import { customElement, property, query } from 'lit/decorators.js';
+import { MusicComponentData } from '../types';
+
+const BAR_COUNT = 48;
+const LOW_POWER_BAR_COUNT = 16;
+const LOW_POWER_FRAME_MS = 66; // ~15 fps
+const SLOW_FRAME_MS = 8; // Average draw time that switches to low-power rendering
+const SLOW_FRAME_SAMPLES = 60;
+const BEAT_THRESHOLD = 1.35; // Bass energy over its running average that counts as a beat
+const BEAT_COOLDOWN_MS = 180;
+
+/**
+ * Canvas layer behind the game that reacts to the mix: spectrum bars along the
+ * bottom, one color blob per music component that blooms with the audio, and
+ * a pulse on detected beats. Draws one still frame when `active` is false, and
+ * drops to fewer bars at a lower resolution and frame rate when `lowPower` is
+ * set or drawing turns out to be slow.
+ */
+@customElement('audio-visualizer')
+export class AudioVisualizer extends LitElement {
+    static override styles = css`
+    :host {
+      position: absolute;
+      inset: 0;
+      pointer-events: none;
+    }
+    canvas {
+      width: 100%;
+      height: 100%;
+      display: block;
+    }
+  `;
+
+    @property({ attribute: false }) analyser: AnalyserNode | null = null;
+    @property({ attribute: false }) components: MusicComponentData[] = [];
+    @property({ type: Boolean }) active = false;
+    @property({ type: Boolean }) lowPower = false;
+
+    @query('canvas') private canvas!: HTMLCanvasElement;
+
+    private frequencyData = new Uint8Array(0);
+    private frameId: number | undefined;
+    private lastFrameAt = 0;
+    private bassAverage = 0;
+    private lastBeatAt = 0;
+    private pulse = 0; // 1 on a beat, decaying to 0
+    private bloom = 0; // Smoothed overall level
+    private slowFrames: number[] = [];
+    private detectedSlow = false;
+    private resizeObserver = new ResizeObserver(() => this.resize());
+
+    private get reducedQuality(): boolean {
+        return this.lowPower || this.detectedSlow;
+    }
+
+    override firstUpdated() {
+        this.resizeObserver.observe(this);
+        this.resize();
+    }
+
+    override disconnectedCallback() {
+        super.disconnectedCallback();
+        this.resizeObserver.disconnect();
+        this.stopLoop();
+    }
+
+    override connectedCallback() {
+        super.connectedCallback();
+        if (this.hasUpdated) this.resizeObserver.observe(this);
+    }
+
+    override updated(changedProperties: Map<string | symbol, unknown>) {
+        super.updated(changedProperties);
+        if (changedProperties.has('lowPower')) this.resize();
+        if (this.active && this.analyser) {
+            this.startLoop();
+        } else {
+            this.stopLoop();
+            this.pulse = 0;
+            this.bloom = 0;
+            this.draw(false);
+        }
+    }
+
+    private resize() {
+        if (!this.canvas) return;
+        // Low-power mode renders at half resolution and lets CSS scale it up.
+        const scale = this.reducedQuality ? 0.5 : Math.min(window.devicePixelRatio || 1, 2);
+        this.canvas.width = Math.max(1, Math.round(this.clientWidth * scale));
+        this.canvas.height = Math.max(1, Math.round(this.clientHeight * scale));
+        if (!this.active) this.draw(false);
+    }
+
+    private startLoop() {
+        if (this.frameId !== undefined) return;
+        const loop = (now: number) => {
+            this.frameId = requestAnimationFrame(loop);
+            if (this.reducedQuality && now - this.lastFrameAt < LOW_POWER_FRAME_MS) return;
+            this.lastFrameAt = now;
+            const started = performance.now();
+            this.draw(true);
+            this.trackFrameTime(performance.now() - started);
+        };
+        this.frameId = requestAnimationFrame(loop);
+    }
+
+    private stopLoop() {
+        if (this.frameId === undefined) return;
+        cancelAnimationFrame(this.frameId);
+        this.frameId = undefined;
+    }
+
+    private trackFrameTime(ms: number) {
+        if (this.detectedSlow) return;
+        this.slowFrames.push(ms);
+        if (this.slowFrames.length < SLOW_FRAME_SAMPLES) return;
+        const average = this.slowFrames.reduce((sum, t) => sum + t, 0) / this.slowFrames.length;
+        this.slowFrames = [];
+        if (average > SLOW_FRAME_MS) {
+            console.warn(`Visualizer frames take ${average.toFixed(1)} ms, switching to low-power rendering.`);
+            this.detectedSlow = true;
+            this.resize();
+        }
+    }
+
+    /** Reads the analyser and updates the bass-driven pulse and overall bloom. */
+    private analyse() {
+        const analyser = this.analyser!;
+        if (this.frequencyData.length !== analyser.frequencyBinCount) {
+            this.frequencyData = new Uint8Array(analyser.frequencyBinCount);
+        }
+        analyser.getByteFrequencyData(this.frequencyData);
+
+        const bassBins = Math.max(1, Math.round(150 / (analyser.context.sampleRate / analyser.fftSize)));
+        let bass = 0;
+        for (let i = 0; i < bassBins; i++) bass += this.frequencyData[i];
+        bass /= bassBins * 255;
+        let level = 0;
+        for (let i = 0; i < this.frequencyData.length; i++) level += this.frequencyData[i];
+        level /= this.frequencyData.length * 255;
+
+        const now = performance.now();
+        if (bass > 0.2 && bass > this.bassAverage * BEAT_THRESHOLD && now - this.lastBeatAt > BEAT_COOLDOWN_MS) {
+            this.lastBeatAt = now;
+            this.pulse = 1;
+        }
+        this.bassAverage += (bass - this.bassAverage) * 0.05;
+        this.pulse *= 0.9;
+        this.bloom += (level - this.bloom) * 0.2;
+    }
+
+    private draw(live: boolean) {
+        const ctx = this.canvas?.getContext('2d');
+        if (!ctx) return;
+        if (live) this.analyse();
+        const { width, height } = this.canvas;
+        ctx.clearRect(0, 0, width, height);
+
+        const base = ctx.createLinearGradient(0, 0, width, height);
+        base.addColorStop(0, 'rgba(20,20,30,0.8)');
+        base.addColorStop(1, 'rgba(40,20,50,0.7)');
+        ctx.fillStyle = base;
+        ctx.fillRect(0, 0, width, height);
+
+        this.drawBlobs(ctx, width, height);
+        if (live) this.drawSpectrum(ctx, width, height);
+
+        if (this.pulse > 0.02) {
+            ctx.fillStyle = `rgba(255,255,255,${(this.pulse * 0.08).toFixed(3)})`;
+            ctx.fillRect(0, 0, width, height);
+        }
+    }
+
+    /** Same layout as the static background: one radial blob per audible component. */
+    private drawBlobs(ctx: CanvasRenderingContext2D, width: number, height: number) {
+        const size = Math.max(width, height);
+        const swell = 1 + this.bloom * 0.6 + this.pulse * 0.25;
+        let i = 0;
+        for (const component of this.components) {
+            if (component.weight <= 0.01) continue;
+            const x = (((i * 37) % 100) / 100) * width;
+            const y = (((i * 61) % 100) / 100) * height;
+            const radius = size * Math.max(0.2, component.weight / 4) * swell;
+            const alpha = Math.min(component.weight / 0.5, 1) * 0.5 * (0.7 + this.bloom * 0.6);
+            const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+            gradient.addColorStop(0, hexWithAlpha(component.color, alpha));
+            gradient.addColorStop(1, hexWithAlpha(component.color, 0));
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, width, height);
+            i++;
+        }
+    }
+
+    /** Log-spaced bars so bass and treble get comparable room. */
+    private drawSpectrum(ctx: CanvasRenderingContext2D, width: number, height: number) {
+        const bars = this.reducedQuality ? LOW_POWER_BAR_COUNT : BAR_COUNT;
+        const bins = this.frequencyData.length;
+        const barWidth = width / bars;
+        const maxHeight = height * 0.25;
+        ctx.fillStyle = `rgba(255,255,255,${(0.12 + this.pulse * 0.15).toFixed(3)})`;
+        for (let bar = 0; bar < bars; bar++) {
+            const from = Math.floor(Math.pow(bins, bar / bars));
+            const to = Math.max(from + 1, Math.floor(Math.pow(bins, (bar + 1) / bars)));
+            let peak = 0;
+            for (let i = from; i < to && i < bins; i++) peak = Math.max(peak, this.frequencyData[i]);
+            const barHeight = (peak / 255) * maxHeight;
+            ctx.fillRect(bar * barWidth + 1, height - barHeight, barWidth - 2, barHeight);
+        }
+    }
+
+    override render() {
+        return html`<canvas aria-hidden="true"></canvas>`;
+    }
+}
+
+function hexWithAlpha(hex: string, alpha: number): string {
+    const a = Math.round(Math.min(Math.max(alpha, 0), 1) * 255).toString(16).padStart(2, '0');
+    return `${hex.slice(0, 7)}${a}`;
+}
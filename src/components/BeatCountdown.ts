@@ -0,0 +1,72 @@
+import { css, html, LitElement } from 'lit';
+import { customElement, property, query } from 'lit/decorators.js';
+import { styleMap } from 'lit/directives/style-map.js';
+
+/** Countdown bar for timed rounds that pulses once per beat. */
+@customElement('beat-countdown')
+export class BeatCountdown extends LitElement {
+    static override styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      gap: 1vmin;
+      width: 100%;
+      color: #ccc;
+      font-size: 1.5vmin;
+    }
+    .track {
+      flex-grow: 1;
+      height: 1vmin;
+      background-color: #0009;
+      border-radius: 4px;
+      overflow: hidden;
+    }
+    .fill {
+      height: 100%;
+      background-color: var(--accent-color, #9900ff);
+      transition: width 0.1s linear;
+    }
+    .fill.urgent {
+      background-color: #ff6b6b;
+    }
+    .count {
+      min-width: 6em;
+      text-align: right;
+      font-variant-numeric: tabular-nums;
+    }
+    :host([paused]) .count {
+      color: #777;
+    }
+  `;
+
+    @property({ type: Number }) beatsLeft = 0;
+    @property({ type: Number }) totalBeats = 0;
+    @property({ type: Number }) beatsPerBar = 4;
+    @property({ type: Boolean, reflect: true }) paused = false;
+
+    @query('.track') private trackEl!: HTMLDivElement;
+
+    override updated(changedProperties: Map<string | symbol, unknown>) {
+        super.updated(changedProperties);
+        if (changedProperties.has('beatsLeft') && !this.paused && this.beatsLeft < this.totalBeats) {
+            // Downbeats get a stronger pulse than the other beats in the bar.
+            const isDownbeat = this.beatsLeft % this.beatsPerBar === 0;
+            this.trackEl.animate([
+                { transform: `scaleY(${isDownbeat ? 2.2 : 1.6})` },
+                { transform: 'scaleY(1)' },
+            ], { duration: 180, easing: 'ease-out' });
+        }
+    }
+
+    override render() {
+        const fraction = this.totalBeats > 0 ? this.beatsLeft / this.totalBeats : 0;
+        const barsLeft = Math.floor(this.beatsLeft / this.beatsPerBar);
+        const beatsInBar = this.beatsLeft % this.beatsPerBar;
+        return html`
+      <div class="track" role="progressbar" aria-valuemin="0" aria-valuemax=${this.totalBeats} aria-valuenow=${this.beatsLeft}>
+        <div class="fill ${fraction <= 0.25 ? 'urgent' : ''}" style=${styleMap({ width: `${fraction * 100}%` })}></div>
+      </div>
+      <span class="count">${this.paused ? 'Paused' : `${barsLeft} bars ${beatsInBar} beats`}</span>
+    `;
+    }
+}
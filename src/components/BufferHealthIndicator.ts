@@ -0,0 +1,87 @@
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { BufferHealth, PlayoutBuffer } from '../playoutBuffer';
+
+/**
+ * Compact readout of the playout buffer: a status dot plus buffered vs. target
+ * seconds. Subscribes to the buffer itself, so its frequent updates only
+ * re-render this element.
+ */
+@customElement('buffer-health-indicator')
+export class BufferHealthIndicator extends LitElement {
+    static override styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      gap: 0.6vmin;
+      color: #aaa;
+      font-size: 1.3vmin;
+      font-variant-numeric: tabular-nums;
+      user-select: none;
+    }
+    .dot {
+      width: 1vmin;
+      height: 1vmin;
+      border-radius: 50%;
+      background-color: #666;
+    }
+    .dot.good {
+      background-color: #3dffab;
+    }
+    .dot.low {
+      background-color: #ffdd28;
+    }
+    .dot.buffering {
+      background-color: #ff6b6b;
+      animation: blink 0.6s ease-in-out infinite alternate;
+    }
+    @keyframes blink {
+      from { opacity: 1; }
+      to { opacity: 0.3; }
+    }
+  `;
+
+    @property({ attribute: false }) buffer: PlayoutBuffer | null = null;
+    @state() private health: BufferHealth | null = null;
+    private unsubscribe: (() => void) | undefined;
+
+    override connectedCallback() {
+        super.connectedCallback();
+        this.subscribe();
+    }
+
+    override disconnectedCallback() {
+        super.disconnectedCallback();
+        this.unsubscribe?.();
+        this.unsubscribe = undefined;
+    }
+
+    override willUpdate(changedProperties: Map<string | symbol, unknown>) {
+        if (changedProperties.has('buffer')) this.subscribe();
+    }
+
+    private subscribe() {
+        this.unsubscribe?.();
+        this.unsubscribe = this.buffer?.subscribe(health => { this.health = health; });
+    }
+
+    private get level(): string {
+        const h = this.health;
+        if (!h || h.state === 'idle') return '';
+        if (h.state === 'buffering') return 'buffering';
+        return h.bufferedSeconds >= h.targetLatency * 0.5 ? 'good' : 'low';
+    }
+
+    override render() {
+        const h = this.health;
+        const title = h
+            ? `Jitter ${h.jitterMs.toFixed(0)} ms · ${h.underruns} under-runs`
+            : '';
+        return html`<span class="dot ${this.level}"></span>
+      <span title=${title}>
+        ${!h || h.state === 'idle'
+            ? 'Buffer idle'
+            : `${h.state === 'buffering' ? 'Buffering' : 'Buffer'} ${h.bufferedSeconds.toFixed(1)}s / ${h.targetLatency.toFixed(1)}s`}
+      </span>`;
+    }
+}
@@ -144,3 +144,35 @@ export class ResetButton extends IconButton {
         return this.renderResetIcon();
     }
 }
+
+@customElement('record-button')
+export class RecordButton extends IconButton {
+    @property({ type: Boolean }) recording = false;
+
+    static override styles = [
+        IconButton.styles,
+        css`
+      .record {
+        fill: #ff4d4d;
+      }
+      .stop {
+        fill: var(--icon-color, #FEFEFE);
+      }
+      .pulse {
+        animation: pulse 1s ease-in-out infinite alternate;
+      }
+      @keyframes pulse {
+        from { opacity: 1; }
+        to { opacity: 0.4; }
+      }
+    `,
+    ];
+
+    override renderIcon() {
+        if (this.recording) {
+            return svg`<rect class="stop" x="36" y="36" width="28" height="28" rx="3" />
+      <circle class="record pulse" cx="72" cy="28" r="6" />`;
+        }
+        return svg`<circle class="record" cx="50" cy="50" r="16" />`;
+    }
+}
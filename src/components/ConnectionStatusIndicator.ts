@@ -0,0 +1,75 @@
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { ConnectionStatus } from '../connectionManager';
+
+/** Shows the music session's connection state, with a retry button once reconnecting gives up. */
+@customElement('connection-status-indicator')
+export class ConnectionStatusIndicator extends LitElement {
+    static override styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      gap: 0.6vmin;
+      color: #aaa;
+      font-size: 1.3vmin;
+      user-select: none;
+    }
+    .dot {
+      width: 1vmin;
+      height: 1vmin;
+      border-radius: 50%;
+      background-color: #666;
+    }
+    .dot.connected {
+      background-color: #3dffab;
+    }
+    .dot.connecting,
+    .dot.reconnecting {
+      background-color: #ffdd28;
+      animation: blink 0.6s ease-in-out infinite alternate;
+    }
+    .dot.failed {
+      background-color: #ff6b6b;
+    }
+    @keyframes blink {
+      from { opacity: 1; }
+      to { opacity: 0.3; }
+    }
+    button {
+      background: none;
+      color: #eee;
+      border: 1px solid #555;
+      border-radius: 4px;
+      padding: 0.2vmin 0.8vmin;
+      font: inherit;
+      cursor: pointer;
+    }
+    button:hover {
+      border-color: #aaa;
+    }
+  `;
+
+    @property({ attribute: false }) status: ConnectionStatus | null = null;
+
+    private get label(): string {
+        const s = this.status;
+        switch (s?.state) {
+            case 'connecting': return 'Connecting…';
+            case 'connected': return 'Connected';
+            case 'reconnecting': return `Reconnecting (${s.attempt}/${s.maxRetries})…`;
+            case 'failed': return 'Connection failed';
+            default: return 'Disconnected';
+        }
+    }
+
+    private handleRetry() {
+        this.dispatchEvent(new CustomEvent('connection-retry', { bubbles: true, composed: true }));
+    }
+
+    override render() {
+        const state = this.status?.state ?? 'idle';
+        return html`<span class="dot ${state}"></span>
+      <span role="status">${this.label}</span>
+      ${state === 'failed' ? html`<button @click=${this.handleRetry}>Retry</button>` : ''}`;
+    }
+}
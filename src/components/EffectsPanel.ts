@@ -0,0 +1,204 @@
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { DEFAULT_EFFECTS, EffectId, EffectsSettings } from '../effectsRack';
+
+interface SliderSpec {
+    key: string;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    format: (value: number) => string;
+    // Optional mapping between the slider position and the stored value, for log scales.
+    toValue?: (position: number) => number;
+    toPosition?: (value: number) => number;
+}
+
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+
+const formatDb = (v: number) => `${v > 0 ? '+' : ''}${v.toFixed(1)} dB`;
+const formatPercent = (v: number) => `${Math.round(v * 100)}%`;
+
+const SLIDERS: Record<EffectId, SliderSpec[]> = {
+    filter: [
+        {
+            key: 'frequency', label: 'Cutoff', min: 0, max: 1, step: 0.001,
+            format: v => v >= 1000 ? `${(v / 1000).toFixed(1)} kHz` : `${Math.round(v)} Hz`,
+            toValue: p => MIN_FREQUENCY * Math.pow(MAX_FREQUENCY / MIN_FREQUENCY, p),
+            toPosition: v => Math.log(v / MIN_FREQUENCY) / Math.log(MAX_FREQUENCY / MIN_FREQUENCY),
+        },
+        { key: 'resonance', label: 'Resonance', min: 0.1, max: 20, step: 0.1, format: v => v.toFixed(1) },
+    ],
+    eq: [
+        { key: 'low', label: 'Low', min: -12, max: 12, step: 0.5, format: formatDb },
+        { key: 'mid', label: 'Mid', min: -12, max: 12, step: 0.5, format: formatDb },
+        { key: 'high', label: 'High', min: -12, max: 12, step: 0.5, format: formatDb },
+    ],
+    reverb: [
+        { key: 'mix', label: 'Mix', min: 0, max: 1, step: 0.01, format: formatPercent },
+        { key: 'decay', label: 'Decay', min: 0.3, max: 8, step: 0.1, format: v => `${v.toFixed(1)} s` },
+    ],
+    delay: [
+        { key: 'time', label: 'Time', min: 0.05, max: 1.5, step: 0.005, format: v => `${Math.round(v * 1000)} ms` },
+        { key: 'feedback', label: 'Feedback', min: 0, max: 0.9, step: 0.01, format: formatPercent },
+        { key: 'mix', label: 'Mix', min: 0, max: 1, step: 0.01, format: formatPercent },
+    ],
+    limiter: [
+        { key: 'threshold', label: 'Threshold', min: -24, max: 0, step: 0.5, format: formatDb },
+    ],
+};
+
+const EFFECT_LABELS: Record<EffectId, string> = {
+    filter: 'Filter',
+    eq: 'EQ',
+    reverb: 'Reverb',
+    delay: 'Delay',
+    limiter: 'Limiter',
+};
+
+/** Collapsible panel with a bypass switch and parameters for each master effect. */
+@customElement('effects-panel')
+export class EffectsPanel extends LitElement {
+    static override styles = css`
+    :host {
+      display: block;
+      margin-top: 1vmin;
+      padding: 1vmin 2vmin;
+      background-color: rgba(42, 42, 42, 0.8);
+      color: #eee;
+      border-radius: 8px;
+      font-size: 1.4vmin;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.2);
+    }
+    .toggle {
+      cursor: pointer;
+      color: #aaa;
+      text-decoration: underline;
+      user-select: none;
+      width: fit-content;
+    }
+    .toggle:hover {
+      color: #eee;
+    }
+    .effects {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(14vmin, 1fr));
+      gap: 2vmin;
+      margin-top: 1.5vmin;
+    }
+    fieldset {
+      border: 1px solid #555;
+      border-radius: 6px;
+      margin: 0;
+      padding: 0.8vmin 1.2vmin;
+      display: flex;
+      flex-direction: column;
+      gap: 0.6vmin;
+    }
+    fieldset.bypassed .param {
+      opacity: 0.5;
+    }
+    legend {
+      display: flex;
+      align-items: center;
+      gap: 0.6vmin;
+      font-weight: bold;
+      padding: 0 0.4vmin;
+    }
+    .param label {
+      display: flex;
+      justify-content: space-between;
+      user-select: none;
+    }
+    .param label span:last-child {
+      color: #ccc;
+      font-variant-numeric: tabular-nums;
+    }
+    input[type='range'] {
+      width: 100%;
+      accent-color: var(--accent-color, #5200ff);
+    }
+    input[type='checkbox'] {
+      cursor: pointer;
+      accent-color: var(--accent-color, #5200ff);
+    }
+    select {
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      font: inherit;
+    }
+  `;
+
+    @property({ attribute: false }) settings: EffectsSettings = DEFAULT_EFFECTS;
+    @state() private expanded = false;
+
+    private updateEffect<K extends EffectId>(id: K, patch: Partial<EffectsSettings[K]>) {
+        const settings: EffectsSettings = { ...this.settings, [id]: { ...this.settings[id], ...patch } };
+        this.dispatchEvent(new CustomEvent<EffectsSettings>('effects-changed', {
+            detail: settings,
+            bubbles: true,
+            composed: true,
+        }));
+    }
+
+    /** Fired when a slider is released, ending one continuous edit. */
+    private dispatchCommitted() {
+        this.dispatchEvent(new CustomEvent('effects-committed', { bubbles: true, composed: true }));
+    }
+
+    private renderSlider(id: EffectId, spec: SliderSpec) {
+        const value = (this.settings[id] as unknown as Record<string, number>)[spec.key];
+        const position = spec.toPosition ? spec.toPosition(value) : value;
+        return html`<div class="param">
+          <label for="${id}-${spec.key}"><span>${spec.label}</span><span>${spec.format(value)}</span></label>
+          <input
+            type="range"
+            id="${id}-${spec.key}"
+            min=${spec.min}
+            max=${spec.max}
+            step=${spec.step}
+            .value=${String(position)}
+            @input=${(e: Event) => {
+                const raw = Number((e.target as HTMLInputElement).value);
+                this.updateEffect(id, { [spec.key]: spec.toValue ? spec.toValue(raw) : raw });
+            }}
+            @change=${this.dispatchCommitted} />
+        </div>`;
+    }
+
+    private renderEffect(id: EffectId) {
+        const effect = this.settings[id];
+        return html`<fieldset class=${effect.enabled ? '' : 'bypassed'}>
+          <legend>
+            <input
+              type="checkbox"
+              .checked=${effect.enabled}
+              aria-label="Enable ${EFFECT_LABELS[id]}"
+              @change=${(e: Event) => this.updateEffect(id, { enabled: (e.target as HTMLInputElement).checked })} />
+            ${EFFECT_LABELS[id]}
+          </legend>
+          ${id === 'filter' ? html`<select
+            aria-label="Filter type"
+            .value=${this.settings.filter.mode}
+            @change=${(e: Event) => this.updateEffect('filter', { mode: (e.target as HTMLSelectElement).value as EffectsSettings['filter']['mode'] })}>
+            <option value="lowpass" ?selected=${this.settings.filter.mode === 'lowpass'}>Low-pass</option>
+            <option value="highpass" ?selected=${this.settings.filter.mode === 'highpass'}>High-pass</option>
+          </select>` : ''}
+          ${SLIDERS[id].map(spec => this.renderSlider(id, spec))}
+        </fieldset>`;
+    }
+
+    override render() {
+        return html`
+      <div class="toggle" @click=${() => { this.expanded = !this.expanded; }}>
+        ${this.expanded ? 'Hide' : 'Show'} Effects
+      </div>
+      ${this.expanded ? html`<div class="effects">
+        ${(Object.keys(EFFECT_LABELS) as EffectId[]).map(id => this.renderEffect(id))}
+      </div>` : ''}
+    `;
+    }
+}
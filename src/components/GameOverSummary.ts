@@ -0,0 +1,158 @@
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { HighScoreEntry, ScoreState } from '../scoring';
+
+/** Overlay shown when the word list runs out, with the final score and high score table. */
+@customElement('game-over-summary')
+export class GameOverSummary extends LitElement {
+    static override styles = css`
+    :host {
+      position: absolute;
+      inset: 0;
+      z-index: 10;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background-color: rgba(0, 0, 0, 0.6);
+    }
+    .panel {
+      background-color: rgba(42, 42, 42, 0.95);
+      color: #eee;
+      border-radius: 8px;
+      padding: 3vmin 4vmin;
+      min-width: 40vmin;
+      max-width: 70vmin;
+      box-shadow: 0 4px 15px rgba(0,0,0,0.4);
+      font-size: 1.8vmin;
+      text-align: center;
+    }
+    h2 {
+      margin: 0 0 1vmin;
+      font-size: 3.5vmin;
+    }
+    .final-score {
+      font-size: 6vmin;
+      font-weight: bold;
+      color: var(--accent-color, #9900ff);
+    }
+    .new-high-score {
+      color: #ffdd28;
+      font-weight: bold;
+      margin-bottom: 1vmin;
+    }
+    .stats-grid {
+      display: grid;
+      grid-template-columns: repeat(3, 1fr);
+      gap: 1vmin;
+      margin: 2vmin 0;
+      color: #aaa;
+    }
+    .stats-grid strong {
+      display: block;
+      color: #eee;
+      font-size: 2.6vmin;
+    }
+    table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 1.5vmin;
+      color: #ccc;
+    }
+    th, td {
+      padding: 0.4vmin 0.8vmin;
+      text-align: left;
+    }
+    td.score {
+      text-align: right;
+    }
+    tr.current {
+      color: #ffdd28;
+    }
+    .actions {
+      display: flex;
+      justify-content: center;
+      gap: 1.5vmin;
+    }
+    button {
+      margin-top: 2vmin;
+      padding: 1.2vmin 3vmin;
+      font-size: 2vmin;
+      background-color: var(--accent-color, #7b00cc);
+      color: white;
+      border: none;
+      border-radius: 6px;
+      cursor: pointer;
+    }
+    button:hover {
+      background-color: color-mix(in srgb, var(--accent-color, #7b00cc) 85%, #000000);
+    }
+    button.secondary {
+      background-color: #444;
+    }
+    button.secondary:hover {
+      background-color: #666;
+    }
+    pre {
+      text-align: left;
+      font-family: inherit;
+      font-size: 1.5vmin;
+      color: #ccc;
+      background-color: rgba(0, 0, 0, 0.3);
+      border-radius: 6px;
+      padding: 1vmin 1.5vmin;
+      white-space: pre-wrap;
+    }
+  `;
+
+    @property({ type: Object }) scoreState: ScoreState | null = null;
+    @property({ type: Array }) highScores: HighScoreEntry[] = [];
+    @property({ type: Number }) rank = -1; // Position of this game in highScores, -1 if absent
+    @property({ type: String }) shareText = ''; // Daily challenge result, empty for classic games
+    @state() private copied = false;
+
+    private dispatchPlayAgain() {
+        this.dispatchEvent(new CustomEvent('play-again', { bubbles: true, composed: true }));
+    }
+
+    private async copyShareText() {
+        try {
+            await navigator.clipboard.writeText(this.shareText);
+            this.copied = true;
+        } catch (e) {
+            console.error('Could not copy results:', e);
+        }
+    }
+
+    override render() {
+        const s = this.scoreState;
+        if (!s) return html``;
+        return html`<div class="panel" role="dialog" aria-label="Game over">
+      <h2>Game Over</h2>
+      <div class="final-score">${s.score}</div>
+      ${this.rank === 0 ? html`<div class="new-high-score">New high score!</div>` : ''}
+      <div class="stats-grid">
+        <div><strong>${s.correct}</strong>Solved</div>
+        <div><strong>${s.skipped}</strong>Skipped</div>
+        <div><strong>${s.bestStreak}</strong>Best streak</div>
+      </div>
+      ${this.highScores.length > 0 ? html`<table>
+        <thead><tr><th>#</th><th>Pack</th><th>Date</th><th class="score">Score</th></tr></thead>
+        <tbody>
+          ${this.highScores.map((entry, i) => html`<tr class=${i === this.rank ? 'current' : ''}>
+            <td>${i + 1}</td>
+            <td>${entry.packName}</td>
+            <td>${new Date(entry.date).toLocaleDateString()}</td>
+            <td class="score">${entry.score}</td>
+          </tr>`)}
+        </tbody>
+      </table>` : ''}
+      ${this.shareText ? html`<pre>${this.shareText}</pre>` : ''}
+      <div class="actions">
+        ${this.shareText ? html`<button class="secondary" @click=${this.copyShareText}>
+          ${this.copied ? 'Copied!' : 'Copy results'}
+        </button>` : ''}
+        <button @click=${this.dispatchPlayAgain}>Play again</button>
+      </div>
+    </div>`;
+    }
+}
@@ -0,0 +1,59 @@
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { GuessAttempt } from '../types';
+
+/** Rows of letter tiles for the wrong guesses made on the current word. */
+@customElement('guess-history')
+export class GuessHistory extends LitElement {
+    static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 0.6vmin;
+    }
+    .row {
+      display: flex;
+      gap: 0.5vmin;
+    }
+    .tile {
+      width: 3.6vmin;
+      height: 3.6vmin;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      font-size: 2vmin;
+      font-weight: bold;
+      color: #fff;
+      border-radius: 4px;
+      text-transform: uppercase;
+    }
+    .tile.correct {
+      background-color: #3a9d4f;
+    }
+    .tile.present {
+      background-color: #c9a227;
+    }
+    .tile.absent {
+      background-color: #3a3a3c;
+    }
+    .remaining {
+      color: #888;
+      font-size: 1.3vmin;
+    }
+  `;
+
+    @property({ type: Array }) attempts: GuessAttempt[] = [];
+    @property({ type: Number }) maxAttempts = 0;
+
+    override render() {
+        if (this.attempts.length === 0) return html``;
+        const remaining = this.maxAttempts - this.attempts.length;
+        return html`
+      ${this.attempts.map(attempt => html`<div class="row" aria-label="Guess ${attempt.guess}">
+        ${attempt.guess.split('').map((letter, i) => html`<span class="tile ${attempt.statuses[i]}" title=${attempt.statuses[i]}>${letter}</span>`)}
+      </div>`)}
+      <div class="remaining">${remaining} ${remaining === 1 ? 'attempt' : 'attempts'} left</div>
+    `;
+    }
+}
@@ -0,0 +1,69 @@
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { LetterStatus } from '../types';
+
+const KEY_ROWS = ['QWERTYUIOP', 'ASDFGHJKL', 'ZXCVBNM'];
+
+/** On-screen keyboard that colors letters by what previous guesses revealed. */
+@customElement('letter-keyboard')
+export class LetterKeyboard extends LitElement {
+    static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 0.5vmin;
+    }
+    .row {
+      display: flex;
+      gap: 0.4vmin;
+    }
+    button {
+      min-width: 3.4vmin;
+      height: 3.8vmin;
+      padding: 0 0.6vmin;
+      font-size: 1.5vmin;
+      font-family: inherit;
+      font-weight: bold;
+      color: #eee;
+      background-color: #555;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+    }
+    button:hover {
+      filter: brightness(1.2);
+    }
+    button.correct {
+      background-color: #3a9d4f;
+    }
+    button.present {
+      background-color: #c9a227;
+    }
+    button.absent {
+      background-color: #2a2a2a;
+      color: #666;
+    }
+  `;
+
+    @property({ attribute: false }) letterStatuses = new Map<string, LetterStatus>();
+
+    private dispatchLetter(letter: string) {
+        this.dispatchEvent(
+            new CustomEvent<string>('letter-key', {
+                detail: letter,
+                bubbles: true,
+                composed: true,
+            }),
+        );
+    }
+
+    override render() {
+        return KEY_ROWS.map(row => html`<div class="row">
+      ${row.split('').map(letter => html`<button
+        class=${this.letterStatuses.get(letter) ?? ''}
+        @click=${() => this.dispatchLetter(letter)}
+        aria-label="${letter}${this.letterStatuses.has(letter) ? `, ${this.letterStatuses.get(letter)}` : ''}">${letter}</button>`)}
+    </div>`);
+    }
+}
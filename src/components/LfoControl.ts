@@ -0,0 +1,231 @@
+import { css, html, LitElement } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import { styleMap } from 'lit/directives/style-map.js';
+import {
+    defaultLfoSettings,
+    LFO_SHAPE_LABELS,
+    LfoRateUnit,
+    LfoSettings,
+    LfoShape,
+    ParameterRange,
+    WEIGHT_RANGE,
+} from '../automation';
+
+/**
+ * A small LFO button for one parameter. While an LFO is attached it pulses and
+ * shows the live value; clicking opens a popover to edit or remove the LFO.
+ * Fires `lfo-changed` with the new settings, or null when the LFO is removed.
+ */
+@customElement('lfo-control')
+export class LfoControl extends LitElement {
+    static override styles = css`
+    :host {
+      display: inline-flex;
+      font-size: 1.2vmin;
+      color: #ccc;
+      font-weight: normal;
+    }
+    .toggle {
+      display: inline-flex;
+      align-items: center;
+      gap: 0.4vmin;
+      background: #2a2a2a;
+      color: #aaa;
+      border: 1px solid #555;
+      border-radius: 3px;
+      padding: 0.1vmin 0.5vmin;
+      font: inherit;
+      cursor: pointer;
+    }
+    .toggle:hover {
+      border-color: #aaa;
+    }
+    .toggle.attached {
+      color: #fff;
+      border-color: var(--accent-color, #5200ff);
+    }
+    .toggle.attached .wave {
+      animation: lfo-pulse 1.2s ease-in-out infinite;
+    }
+    .meter {
+      position: relative;
+      width: 0.5vmin;
+      height: 1.4vmin;
+      background: #444;
+      border-radius: 1px;
+      overflow: hidden;
+    }
+    .level {
+      position: absolute;
+      bottom: 0;
+      left: 0;
+      right: 0;
+      background: var(--accent-color, #5200ff);
+      transition: height 0.2s linear;
+    }
+    @keyframes lfo-pulse {
+      50% { opacity: 0.4; }
+    }
+    @media (prefers-reduced-motion: reduce) {
+      .toggle.attached .wave {
+        animation: none;
+      }
+      .level {
+        transition: none;
+      }
+    }
+    .panel {
+      margin: 0;
+      padding: 1vmin;
+      background: #1e1e1e;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 6px;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.5);
+      font-size: 1.3vmin;
+    }
+    .panel:popover-open {
+      display: grid;
+      grid-template-columns: auto auto;
+      gap: 0.6vmin 1vmin;
+      align-items: center;
+    }
+    .panel h4 {
+      grid-column: 1 / -1;
+      margin: 0;
+      font-size: 1.4vmin;
+    }
+    select,
+    input {
+      background: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.3vmin;
+      font: inherit;
+    }
+    input[type='number'] {
+      width: 7vmin;
+    }
+    .rate {
+      display: flex;
+      gap: 0.4vmin;
+    }
+    .actions {
+      grid-column: 1 / -1;
+      display: flex;
+      justify-content: flex-end;
+      gap: 0.6vmin;
+    }
+    .actions button {
+      background: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.3vmin 0.8vmin;
+      font: inherit;
+      cursor: pointer;
+    }
+  `;
+
+    /** The attached LFO, or null when the parameter is static. */
+    @property({ attribute: false }) settings: LfoSettings | null = null;
+    @property({ attribute: false }) range: ParameterRange = WEIGHT_RANGE;
+    /** Live value from the last automation step. */
+    @property({ type: Number }) value: number | undefined = undefined;
+
+    @state() private draft: LfoSettings | null = null; // Edited before attaching
+
+    @query('.toggle') private toggleButton!: HTMLButtonElement;
+    @query('.panel') private panel!: HTMLElement;
+
+    private get editing(): LfoSettings {
+        return this.settings ?? this.draft ?? defaultLfoSettings(this.range);
+    }
+
+    private openPanel() {
+        // The panel lives in the top layer so containers with overflow: hidden do not clip it.
+        const rect = this.toggleButton.getBoundingClientRect();
+        this.panel.style.position = 'fixed';
+        this.panel.style.left = `${Math.max(0, Math.min(rect.left, window.innerWidth - 260))}px`;
+        this.panel.style.top = `${Math.min(rect.bottom + 4, window.innerHeight - 220)}px`;
+        this.panel.togglePopover();
+    }
+
+    private patchLfo(patch: Partial<LfoSettings>) {
+        const next = { ...this.editing, ...patch };
+        if (next.min > next.max) [next.min, next.max] = [next.max, next.min];
+        if (this.settings) {
+            this.dispatchLfoChanged(next);
+        } else {
+            this.draft = next;
+        }
+    }
+
+    private numberInput(e: Event, fallback: number): number {
+        const value = Number((e.target as HTMLInputElement).value);
+        return Number.isFinite(value) ? value : fallback;
+    }
+
+    private clamp(value: number): number {
+        return Math.max(this.range.min, Math.min(this.range.max, value));
+    }
+
+    private dispatchLfoChanged(settings: LfoSettings | null) {
+        this.dispatchEvent(new CustomEvent<LfoSettings | null>('lfo-changed', { detail: settings }));
+    }
+
+    private attach() {
+        this.dispatchLfoChanged(this.editing);
+        this.draft = null;
+    }
+
+    private detach() {
+        this.dispatchLfoChanged(null);
+        this.panel.hidePopover();
+    }
+
+    override render() {
+        const lfo = this.editing;
+        const { min, max, step, label } = this.range;
+        const attached = this.settings !== null;
+        const level = attached && this.value !== undefined ? (this.value - min) / (max - min) : 0;
+        return html`
+      <button
+        class="toggle ${attached ? 'attached' : ''}"
+        title=${attached ? `${label} is automated` : `Automate ${label.toLowerCase()}`}
+        aria-label=${attached ? `Edit ${label} LFO` : `Add LFO to ${label}`}
+        @click=${this.openPanel}>
+        <span class="wave">∿</span>
+        ${attached ? html`<span class="meter"><span class="level" style=${styleMap({ height: `${Math.round(level * 100)}%` })}></span></span>` : ''}
+      </button>
+      <div class="panel" popover>
+        <h4>${label} LFO</h4>
+        <label for="shape">Shape</label>
+        <select id="shape" .value=${lfo.shape} @change=${(e: Event) => this.patchLfo({ shape: (e.target as HTMLSelectElement).value as LfoShape })}>
+          ${(Object.keys(LFO_SHAPE_LABELS) as LfoShape[]).map(shape => html`<option value=${shape} ?selected=${shape === lfo.shape}>${LFO_SHAPE_LABELS[shape]}</option>`)}
+        </select>
+        <label for="rate">Cycle</label>
+        <span class="rate">
+          <input id="rate" type="number" min="0.25" step="0.25" .value=${String(lfo.rate)}
+            @change=${(e: Event) => this.patchLfo({ rate: Math.max(0.25, this.numberInput(e, lfo.rate)) })} />
+          <select aria-label="Cycle unit" .value=${lfo.unit} @change=${(e: Event) => this.patchLfo({ unit: (e.target as HTMLSelectElement).value as LfoRateUnit })}>
+            <option value="bars" ?selected=${lfo.unit === 'bars'}>bars</option>
+            <option value="seconds" ?selected=${lfo.unit === 'seconds'}>seconds</option>
+          </select>
+        </span>
+        <label for="min">Min</label>
+        <input id="min" type="number" min=${min} max=${max} step=${step} .value=${String(lfo.min)}
+          @change=${(e: Event) => this.patchLfo({ min: this.clamp(this.numberInput(e, lfo.min)) })} />
+        <label for="max">Max</label>
+        <input id="max" type="number" min=${min} max=${max} step=${step} .value=${String(lfo.max)}
+          @change=${(e: Event) => this.patchLfo({ max: this.clamp(this.numberInput(e, lfo.max)) })} />
+        <div class="actions">
+          ${attached
+                ? html`<button @click=${this.detach}>Remove</button>`
+                : html`<button @click=${this.attach}>Attach</button>`}
+        </div>
+      </div>
+    `;
+    }
+}
@@ -0,0 +1,230 @@
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import {
+    describeMidiSource,
+    findMidiSource,
+    MIDI_ACTION_LABELS,
+    MidiAction,
+    MidiBindings,
+    MidiStatus,
+    MidiTarget,
+} from '../midi';
+
+const STATUS_LABELS: Record<MidiStatus, string> = {
+    unsupported: 'Web MIDI is not available in this browser; the virtual controller still works.',
+    off: 'Hardware inputs are off.',
+    requesting: 'Waiting for MIDI permission…',
+    ready: 'Listening to all MIDI inputs.',
+    denied: 'MIDI access was blocked.',
+};
+
+/**
+ * Collapsible MIDI panel: enables hardware inputs, toggles MIDI-learn, lists
+ * and removes mappings, and hosts a virtual controller that sends real MIDI
+ * bytes through the same input path as hardware.
+ *
+ * Fires `midi-enable`, `midi-learn-toggle`, `midi-learn` (detail: target to
+ * arm), `midi-binding-removed` (detail: source key) and `midi-virtual-message`
+ * (detail: raw bytes).
+ */
+@customElement('midi-panel')
+export class MidiPanel extends LitElement {
+    static override styles = css`
+    :host {
+      display: block;
+      margin-top: 1vmin;
+      padding: 1vmin 2vmin;
+      background-color: rgba(42, 42, 42, 0.8);
+      color: #eee;
+      border-radius: 8px;
+      font-size: 1.4vmin;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.2);
+    }
+    .toggle {
+      cursor: pointer;
+      color: #aaa;
+      text-decoration: underline;
+      user-select: none;
+      width: fit-content;
+    }
+    .toggle:hover {
+      color: #eee;
+    }
+    .body {
+      display: flex;
+      flex-direction: column;
+      gap: 1.2vmin;
+      margin-top: 1.5vmin;
+    }
+    .row {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 0.8vmin;
+    }
+    .muted {
+      color: #aaa;
+      font-size: 1.3vmin;
+    }
+    h4 {
+      margin: 0;
+      font-size: 1.4vmin;
+    }
+    button {
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.3vmin 0.8vmin;
+      font: inherit;
+      cursor: pointer;
+    }
+    button:hover:not(:disabled) {
+      border-color: #aaa;
+    }
+    button:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+    button[aria-pressed='true'] {
+      border-color: var(--accent-color, #5200ff);
+      background-color: color-mix(in srgb, var(--accent-color, #5200ff) 40%, #2a2a2a);
+    }
+    ul {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 0.4vmin;
+    }
+    li {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 1vmin;
+    }
+    li button {
+      padding: 0 0.6vmin;
+    }
+    input[type='number'] {
+      width: 5vmin;
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      font: inherit;
+    }
+    input[type='range'] {
+      flex: 1;
+      min-width: 12vmin;
+      accent-color: var(--accent-color, #5200ff);
+    }
+  `;
+
+    @property({ type: String }) status: MidiStatus = 'off';
+    @property({ attribute: false }) inputs: string[] = [];
+    @property({ type: Boolean }) learning = false;
+    @property({ attribute: false }) armed: MidiTarget | null = null;
+    @property({ attribute: false }) bindings: MidiBindings = new Map();
+    /** Human-readable name of each bound target, e.g. "Density". */
+    @property({ attribute: false }) describeTarget: (target: MidiTarget) => string = target => target;
+
+    @state() private expanded = false;
+    @state() private virtualChannel = 1;
+    @state() private virtualController = 1;
+    @state() private virtualNote = 60;
+
+    private dispatch<T>(type: string, detail?: T) {
+        this.dispatchEvent(new CustomEvent<T>(type, { detail }));
+    }
+
+    private sendVirtual(bytes: number[]) {
+        this.dispatch<number[]>('midi-virtual-message', bytes);
+    }
+
+    private sendVirtualCc(e: Event) {
+        const value = Number((e.target as HTMLInputElement).value);
+        this.sendVirtual([0xb0 | (this.virtualChannel - 1), this.virtualController, value]);
+    }
+
+    private sendVirtualNote() {
+        this.sendVirtual([0x90 | (this.virtualChannel - 1), this.virtualNote, 100]);
+        this.sendVirtual([0x80 | (this.virtualChannel - 1), this.virtualNote, 0]);
+    }
+
+    private midiNumber(e: Event, min: number, max: number, fallback: number): number {
+        const value = Math.round(Number((e.target as HTMLInputElement).value));
+        return Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+    }
+
+    private renderActionLearn(action: MidiAction) {
+        const target: MidiTarget = `action:${action}`;
+        const source = findMidiSource(this.bindings, target);
+        return html`<button
+          aria-pressed=${this.armed === target ? 'true' : 'false'}
+          title=${source ? `Mapped to ${describeMidiSource(source)}` : 'Not mapped'}
+          @click=${() => this.dispatch<MidiTarget>('midi-learn', target)}>
+          ${MIDI_ACTION_LABELS[action]}${source ? ` (${describeMidiSource(source)})` : ''}
+        </button>`;
+    }
+
+    private renderBody() {
+        return html`<div class="body">
+          <div class="row">
+            ${this.status === 'off' || this.status === 'denied'
+                ? html`<button @click=${() => this.dispatch('midi-enable')}>Enable MIDI inputs</button>`
+                : ''}
+            <span class="muted">${STATUS_LABELS[this.status]}</span>
+          </div>
+          <div class="muted">Inputs: ${this.inputs.join(', ')}</div>
+
+          <div class="row">
+            <button aria-pressed=${this.learning ? 'true' : 'false'} @click=${() => this.dispatch('midi-learn-toggle')}>
+              ${this.learning ? 'Done mapping' : 'MIDI learn'}
+            </button>
+            <span class="muted">
+              ${this.learning
+                ? (this.armed ? 'Now move a knob or fader, or press a pad for an action.' : 'Click a slider, setting or action to map it.')
+                : ''}
+            </span>
+          </div>
+          ${this.learning ? html`<div class="row">
+            ${(Object.keys(MIDI_ACTION_LABELS) as MidiAction[]).map(action => this.renderActionLearn(action))}
+          </div>` : ''}
+
+          <h4>Mappings</h4>
+          ${this.bindings.size === 0
+                ? html`<span class="muted">None yet.</span>`
+                : html`<ul>
+              ${[...this.bindings].map(([source, target]) => html`<li>
+                <span>${describeMidiSource(source)} → ${this.describeTarget(target)}</span>
+                <button aria-label="Remove mapping" @click=${() => this.dispatch<string>('midi-binding-removed', source)}>✕</button>
+              </li>`)}
+            </ul>`}
+
+          <h4>Virtual controller</h4>
+          <div class="row">
+            <label>Ch <input type="number" min="1" max="16" .value=${String(this.virtualChannel)}
+              @change=${(e: Event) => { this.virtualChannel = this.midiNumber(e, 1, 16, this.virtualChannel); }} /></label>
+            <label>CC <input type="number" min="0" max="127" .value=${String(this.virtualController)}
+              @change=${(e: Event) => { this.virtualController = this.midiNumber(e, 0, 127, this.virtualController); }} /></label>
+            <input type="range" min="0" max="127" step="1" value="0" aria-label="Virtual fader" @input=${this.sendVirtualCc} />
+          </div>
+          <div class="row">
+            <label>Note <input type="number" min="0" max="127" .value=${String(this.virtualNote)}
+              @change=${(e: Event) => { this.virtualNote = this.midiNumber(e, 0, 127, this.virtualNote); }} /></label>
+            <button @click=${this.sendVirtualNote}>Hit pad</button>
+          </div>
+        </div>`;
+    }
+
+    override render() {
+        return html`
+      <div class="toggle" @click=${() => { this.expanded = !this.expanded; }}>
+        ${this.expanded ? 'Hide' : 'Show'} MIDI
+      </div>
+      ${this.expanded ? this.renderBody() : ''}
+    `;
+    }
+}
@@ -1,6 +1,9 @@
 import { css, html, LitElement } from 'lit';
 import { customElement, property, query } from 'lit/decorators.js';
+import { AutomationChange, AutomationState, LfoSettings, weightTarget } from '../automation';
+import { describeMidiSource, MidiTarget } from '../midi';
 import { MusicComponentData } from '../types';
+import './LfoControl';
 import './WeightSlider'; // Import for side effects (registration)
 import { WeightSlider } from './WeightSlider';
 
@@ -45,6 +48,33 @@ export class MusicComponentController extends LitElement {
       opacity: 1;
       background-color: #c84040; /* Red hover for delete */
     }
+    lfo-control {
+      position: absolute;
+      top: 0.8vmin;
+      left: 0.8vmin;
+      z-index: 10;
+    }
+    .midi-learn {
+      position: absolute;
+      inset: 0;
+      z-index: 20;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      padding: 1vmin;
+      background: rgba(0, 0, 0, 0.6);
+      color: #fff;
+      border: 2px dashed #888;
+      border-radius: 8px;
+      font: inherit;
+      font-size: 1.4vmin;
+      text-align: center;
+      cursor: pointer;
+    }
+    .midi-learn.armed {
+      border-color: var(--accent-color, #5200ff);
+      border-style: solid;
+    }
     weight-slider {
       max-height: calc(100% - 7vmin); /* Adjusted for text display */
       flex: 1;
@@ -82,6 +112,10 @@ export class MusicComponentController extends LitElement {
       color: #fff;
       user-select: none; /* Text is not selectable */
     }
+    :host([removing]) .music-component {
+      opacity: 0.4;
+      transition: opacity 0.3s;
+    }
     :host([filtered='true']) #word-text { /* Style for filtered words */
       color: #ff8a80; /* Softer red for filtered text */
       text-decoration: line-through;
@@ -90,33 +124,85 @@ export class MusicComponentController extends LitElement {
 
     @property({ type: String, reflect: true }) promptId = ''; // Keep promptId as internal ID
     @property({ type: String }) text = ''; // This will be the guessed word
+    @property({ type: String }) prompt = ''; // Music prompt behind the word
     @property({ type: Number }) weight = 0;
     @property({ type: String }) color = '';
     @property({ type: Boolean, reflect: true }) filtered = false;
+    @property({ type: Boolean }) glide = false;
+    @property({ type: Number }) target: number | null = null; // Weight a running transition is heading for
+    @property({ type: Boolean, reflect: true }) removing = false; // Fading out before removal
+    @property({ attribute: false }) automation: AutomationState | null = null; // LFO driving the weight
+    @property({ attribute: false }) midiTarget: MidiTarget | null = null; // Set while MIDI-learn is on
+    @property({ type: Boolean }) midiArmed = false;
+    @property({ type: String }) midiSource: string | undefined = undefined; // Bound MIDI source key
 
 
     @query('weight-slider') private weightInput!: WeightSlider;
 
     // Text is no longer editable, so event handlers for text input are removed.
 
-    private dispatchMusicComponentChanged() { // Renamed event
+    private dispatchMusicComponentChanged(weight: number = this.weight) { // Renamed event
         this.dispatchEvent(
             new CustomEvent<MusicComponentData>('music-component-changed', { // Renamed event
                 detail: {
                     promptId: this.promptId,
                     text: this.text,
-                    weight: this.weight,
+                    prompt: this.prompt,
+                    weight,
                     color: this.color,
                 },
             }),
         );
     }
 
-    private updateWeight() {
+    private updateWeight(e: CustomEvent<number>) {
+        if (this.glide) {
+            // The parent ramps the weight; report only where it should end up.
+            this.dispatchMusicComponentChanged(e.detail);
+            return;
+        }
         this.weight = this.weightInput.value;
         this.dispatchMusicComponentChanged();
     }
 
+    private dispatchWeightCommitted() {
+        this.dispatchEvent(
+            new CustomEvent<string>('music-component-weight-committed', {
+                detail: this.promptId,
+                bubbles: true,
+                composed: true,
+            }),
+        );
+    }
+
+    private dispatchAutomationChanged(e: CustomEvent<LfoSettings | null>) {
+        this.dispatchEvent(
+            new CustomEvent<AutomationChange>('automation-changed', {
+                detail: { target: weightTarget(this.promptId), settings: e.detail },
+                bubbles: true,
+                composed: true,
+            }),
+        );
+    }
+
+    private dispatchMidiLearn() {
+        this.dispatchEvent(
+            new CustomEvent<MidiTarget>('midi-learn', {
+                detail: this.midiTarget!,
+                bubbles: true,
+                composed: true,
+            }),
+        );
+    }
+
+    private renderMidiLearn() {
+        if (!this.midiTarget) return '';
+        const label = this.midiArmed
+            ? 'Move a knob or fader…'
+            : (this.midiSource ? describeMidiSource(this.midiSource) : 'Click to map');
+        return html`<button class="midi-learn ${this.midiArmed ? 'armed' : ''}" @click=${this.dispatchMidiLearn}>${label}</button>`;
+    }
+
     private dispatchMusicComponentRemoved() { // Renamed event
         this.dispatchEvent(
             new CustomEvent<string>('music-component-removed', { // Renamed event
@@ -132,14 +218,22 @@ export class MusicComponentController extends LitElement {
       <button class="remove-button" @click=${this.dispatchMusicComponentRemoved} aria-label="Remove ${this.text} component">
         ✕
       </button>
+      <lfo-control
+        .settings=${this.automation?.settings ?? null}
+        .value=${this.automation?.value}
+        @lfo-changed=${this.dispatchAutomationChanged}></lfo-control>
       <weight-slider
         id="weight"
         .value=${this.weight}
         .color=${this.color}
-        @input=${this.updateWeight}></weight-slider>
+        .glide=${this.glide}
+        .target=${this.target ?? this.weight}
+        @input=${this.updateWeight}
+        @change=${this.dispatchWeightCommitted}></weight-slider>
       <div class="controls">
-        <span id="word-text" title=${this.text}>${this.text}</span>
+        <span id="word-text" title=${this.prompt || this.text}>${this.text}</span>
       </div>
+      ${this.renderMidiLearn()}
     </div>`;
     }
 }
@@ -0,0 +1,208 @@
+import { css, html, LitElement } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import { type LiveMusicGenerationConfig } from '@google/genai';
+import { EffectsSettings } from '../effectsRack';
+import {
+    BUILT_IN_PRESETS,
+    exportPresets,
+    isBuiltInPreset,
+    loadPresets,
+    mergePresets,
+    parsePresets,
+    savePresets,
+    SettingsPreset,
+} from '../presets';
+
+/**
+ * Saves, renames, deletes and recalls named settings presets, and moves them
+ * in and out as JSON files. Recalling fires `preset-recalled` with the preset.
+ */
+@customElement('preset-manager')
+export class PresetManager extends LitElement {
+    static override styles = css`
+    :host {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 0.8vmin;
+      margin-bottom: 1.5vmin;
+      font-size: 1.4vmin;
+      color: #eee;
+    }
+    select,
+    input[type='text'],
+    button {
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.4vmin;
+      font: inherit;
+    }
+    input[type='text'] {
+      width: 14vmin;
+    }
+    input[type='text']::placeholder {
+      color: #888;
+    }
+    button {
+      cursor: pointer;
+    }
+    button:hover:not(:disabled) {
+      border-color: #aaa;
+    }
+    button:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+    input[type='file'] {
+      display: none;
+    }
+    .status {
+      color: #aaa;
+      font-size: 1.3vmin;
+    }
+  `;
+
+    @property({ attribute: false }) config: LiveMusicGenerationConfig = {};
+    @property({ attribute: false }) effects: EffectsSettings | null = null;
+
+    @state() private presets: SettingsPreset[] = loadPresets();
+    @state() private selectedName = '';
+    @state() private nameDraft = '';
+    @state() private status = '';
+
+    @query('input[type="file"]') private fileInput!: HTMLInputElement;
+
+    private get selectedIsUserPreset(): boolean {
+        return this.presets.some(p => p.name === this.selectedName);
+    }
+
+    private findPreset(name: string): SettingsPreset | undefined {
+        return BUILT_IN_PRESETS.find(p => p.name === name) ?? this.presets.find(p => p.name === name);
+    }
+
+    private setPresets(presets: SettingsPreset[]) {
+        this.presets = presets;
+        savePresets(presets);
+    }
+
+    private handleSelect(e: Event) {
+        const name = (e.target as HTMLSelectElement).value;
+        const preset = this.findPreset(name);
+        this.selectedName = name;
+        if (!preset) return;
+        this.nameDraft = preset.name;
+        this.status = `Loaded "${preset.name}"`;
+        this.dispatchEvent(new CustomEvent<SettingsPreset>('preset-recalled', { detail: preset }));
+    }
+
+    /** Returns the trimmed draft name, or null (with a status message) if it cannot be used. */
+    private validDraftName(): string | null {
+        const name = this.nameDraft.trim();
+        if (!name) {
+            this.status = 'Enter a preset name';
+            return null;
+        }
+        if (isBuiltInPreset(name)) {
+            this.status = `"${name}" is a built-in preset`;
+            return null;
+        }
+        return name;
+    }
+
+    private handleSave() {
+        const name = this.validDraftName();
+        if (!name) return;
+        const preset: SettingsPreset = {
+            name,
+            config: { ...this.config, seed: undefined }, // The seed belongs to the game, not the sound
+            effects: this.effects ? structuredClone(this.effects) : undefined,
+        };
+        this.setPresets(mergePresets(this.presets, [preset]));
+        this.selectedName = name;
+        this.status = `Saved "${name}"`;
+    }
+
+    private handleRename() {
+        const name = this.validDraftName();
+        if (!name || !this.selectedIsUserPreset || name === this.selectedName) return;
+        if (this.presets.some(p => p.name.toLowerCase() === name.toLowerCase() && p.name !== this.selectedName)) {
+            this.status = `"${name}" already exists`;
+            return;
+        }
+        this.setPresets(this.presets.map(p => p.name === this.selectedName ? { ...p, name } : p));
+        this.status = `Renamed to "${name}"`;
+        this.selectedName = name;
+    }
+
+    private handleDelete() {
+        if (!this.selectedIsUserPreset) return;
+        const name = this.selectedName;
+        this.setPresets(this.presets.filter(p => p.name !== name));
+        this.selectedName = '';
+        this.nameDraft = '';
+        this.status = `Deleted "${name}"`;
+    }
+
+    private handleExport() {
+        if (this.presets.length === 0) {
+            this.status = 'No saved presets to export';
+            return;
+        }
+        const url = URL.createObjectURL(new Blob([exportPresets(this.presets)], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'word-music-game-presets.json';
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+        this.status = `Exported ${this.presets.length} preset${this.presets.length === 1 ? '' : 's'}`;
+    }
+
+    private async handleImportFile(e: Event) {
+        const input = e.target as HTMLInputElement;
+        const file = input.files?.[0];
+        input.value = ''; // Allow importing the same file again
+        if (!file) return;
+        try {
+            const imported = parsePresets(JSON.parse(await file.text()));
+            const usable = imported.filter(p => !isBuiltInPreset(p.name));
+            this.setPresets(mergePresets(this.presets, usable));
+            const skipped = imported.length - usable.length;
+            this.status = `Imported ${usable.length} preset${usable.length === 1 ? '' : 's'}${skipped > 0 ? `, skipped ${skipped} built-in name${skipped === 1 ? '' : 's'}` : ''}`;
+        } catch (err: unknown) {
+            console.error('Failed to import presets:', err);
+            this.status = err instanceof SyntaxError
+                ? 'That file is not valid JSON'
+                : ((err instanceof Error && err.message) || 'Could not import presets');
+        }
+    }
+
+    override render() {
+        return html`
+      <select aria-label="Preset" .value=${this.selectedName} @change=${this.handleSelect}>
+        <option value="" ?selected=${this.selectedName === ''}>Presets…</option>
+        <optgroup label="Built-in">
+          ${BUILT_IN_PRESETS.map(p => html`<option value=${p.name} ?selected=${p.name === this.selectedName}>${p.name}</option>`)}
+        </optgroup>
+        ${this.presets.length > 0 ? html`<optgroup label="My presets">
+          ${this.presets.map(p => html`<option value=${p.name} ?selected=${p.name === this.selectedName}>${p.name}</option>`)}
+        </optgroup>` : ''}
+      </select>
+      <input
+        type="text"
+        placeholder="Preset name"
+        aria-label="Preset name"
+        .value=${this.nameDraft}
+        @input=${(e: Event) => { this.nameDraft = (e.target as HTMLInputElement).value; }}
+        @keydown=${(e: KeyboardEvent) => { if (e.key === 'Enter') this.handleSave(); }} />
+      <button @click=${this.handleSave}>Save</button>
+      <button @click=${this.handleRename} ?disabled=${!this.selectedIsUserPreset}>Rename</button>
+      <button @click=${this.handleDelete} ?disabled=${!this.selectedIsUserPreset}>Delete</button>
+      <button @click=${this.handleExport}>Export</button>
+      <button @click=${() => this.fileInput.click()}>Import</button>
+      <input type="file" accept="application/json,.json" @change=${this.handleImportFile} />
+      <span class="status" aria-live="polite">${this.status}</span>
+    `;
+    }
+}
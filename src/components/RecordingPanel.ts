@@ -0,0 +1,130 @@
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+/** Trim range for a finished recording. */
+export interface RecordingTrim {
+    readonly start: number; // seconds
+    readonly end: number; // seconds
+}
+
+function formatTime(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+}
+
+/** Shown after a recording stops: trim the take, then export it as WAV or discard it. */
+@customElement('recording-panel')
+export class RecordingPanel extends LitElement {
+    static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 0.8vmin;
+      padding: 1.5vmin 2vmin;
+      background-color: rgba(42, 42, 42, 0.9);
+      border-radius: 8px;
+      color: #eee;
+      font-size: 1.5vmin;
+      min-width: 36vmin;
+    }
+    .row {
+      display: flex;
+      align-items: center;
+      gap: 1vmin;
+    }
+    .row label {
+      min-width: 4em;
+      color: #aaa;
+    }
+    .row span {
+      min-width: 4.5em;
+      text-align: right;
+      font-variant-numeric: tabular-nums;
+    }
+    input[type='range'] {
+      flex-grow: 1;
+      accent-color: var(--accent-color, #9900ff);
+    }
+    .note {
+      color: #aaa;
+      font-size: 1.3vmin;
+    }
+    .actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 1vmin;
+    }
+    button {
+      padding: 0.6vmin 1.6vmin;
+      font-size: 1.5vmin;
+      color: white;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      background-color: #444;
+    }
+    button.primary {
+      background-color: var(--accent-color, #7b00cc);
+    }
+    button:hover {
+      filter: brightness(1.2);
+    }
+  `;
+
+    @property({ type: Number }) duration = 0; // seconds
+    @property({ type: Number }) maxDuration = 0; // seconds kept by the recorder
+    @state() private trimStart = 0;
+    @state() private trimEnd = 0;
+
+    override willUpdate(changedProperties: Map<string | symbol, unknown>) {
+        if (changedProperties.has('duration')) {
+            this.trimStart = 0;
+            this.trimEnd = this.duration;
+        }
+    }
+
+    private handleStartInput(e: Event) {
+        this.trimStart = Math.min(Number((e.target as HTMLInputElement).value), this.trimEnd);
+    }
+
+    private handleEndInput(e: Event) {
+        this.trimEnd = Math.max(Number((e.target as HTMLInputElement).value), this.trimStart);
+    }
+
+    private dispatchExport() {
+        this.dispatchEvent(
+            new CustomEvent<RecordingTrim>('recording-export', {
+                detail: { start: this.trimStart, end: this.trimEnd },
+                bubbles: true,
+                composed: true,
+            }),
+        );
+    }
+
+    private dispatchDiscard() {
+        this.dispatchEvent(new CustomEvent('recording-discard', { bubbles: true, composed: true }));
+    }
+
+    override render() {
+        return html`
+      <div class="row">
+        <label for="trim-start">Start</label>
+        <input type="range" id="trim-start" min="0" max=${this.duration} step="0.1" .value=${String(this.trimStart)} @input=${this.handleStartInput} />
+        <span>${formatTime(this.trimStart)}</span>
+      </div>
+      <div class="row">
+        <label for="trim-end">End</label>
+        <input type="range" id="trim-end" min="0" max=${this.duration} step="0.1" .value=${String(this.trimEnd)} @input=${this.handleEndInput} />
+        <span>${formatTime(this.trimEnd)}</span>
+      </div>
+      <div class="note">
+        Keeps the last ${Math.round(this.maxDuration / 60)} minutes of a take. Recorded before the effects, so the file is dry.
+      </div>
+      <div class="actions">
+        <span>Length ${formatTime(this.trimEnd - this.trimStart)}</span>
+        <button @click=${this.dispatchDiscard}>Discard</button>
+        <button class="primary" @click=${this.dispatchExport}>Export WAV</button>
+      </div>
+    `;
+    }
+}
@@ -0,0 +1,89 @@
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { SceneSlot } from '../scenes';
+
+/**
+ * Two scene slots and a crossfader between them. Fires `scene-stored` with the
+ * slot to capture the current mix into, and `crossfade` with the fader
+ * position (0 = scene A, 1 = scene B) while it moves.
+ */
+@customElement('scene-crossfader')
+export class SceneCrossfader extends LitElement {
+    static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 0.4vmin;
+      color: #aaa;
+      font-size: 1.3vmin;
+    }
+    .slots {
+      display: flex;
+      justify-content: space-between;
+      gap: 0.6vmin;
+    }
+    button {
+      background-color: #222;
+      color: #eee;
+      border: 1px solid #444;
+      border-radius: 4px;
+      padding: 0.3vmin 0.6vmin;
+      font: inherit;
+      cursor: pointer;
+    }
+    button:hover {
+      border-color: #888;
+    }
+    button.stored {
+      border-color: var(--accent-color, #5200ff);
+    }
+    input[type='range'] {
+      width: 100%;
+      margin: 0;
+      accent-color: var(--accent-color, #5200ff);
+    }
+    input[type='range']:disabled {
+      opacity: 0.4;
+    }
+  `;
+
+    @property({ type: Boolean }) hasA = false;
+    @property({ type: Boolean }) hasB = false;
+    @property({ type: Number }) position = 0;
+
+    private store(slot: SceneSlot) {
+        this.dispatchEvent(new CustomEvent<SceneSlot>('scene-stored', { detail: slot }));
+    }
+
+    private handleInput(e: Event) {
+        this.position = Number((e.target as HTMLInputElement).value);
+        this.dispatchEvent(new CustomEvent<number>('crossfade', { detail: this.position }));
+    }
+
+    override render() {
+        const ready = this.hasA && this.hasB;
+        return html`
+      <span>Scenes</span>
+      <div class="slots">
+        <button
+          class=${this.hasA ? 'stored' : ''}
+          title=${this.hasA ? 'Overwrite scene A with the current mix' : 'Store the current mix as scene A'}
+          @click=${() => this.store('a')}>Store A</button>
+        <button
+          class=${this.hasB ? 'stored' : ''}
+          title=${this.hasB ? 'Overwrite scene B with the current mix' : 'Store the current mix as scene B'}
+          @click=${() => this.store('b')}>Store B</button>
+      </div>
+      <input
+        type="range"
+        min="0"
+        max="1"
+        step="0.01"
+        .value=${String(this.position)}
+        ?disabled=${!ready}
+        title=${ready ? 'Crossfade from scene A to scene B' : 'Store both scenes to crossfade'}
+        aria-label="Crossfader between scene A and scene B"
+        @input=${this.handleInput} />
+    `;
+    }
+}
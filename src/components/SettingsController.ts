@@ -1,7 +1,22 @@
 import { css, html, LitElement } from 'lit';
-import { customElement, state } from 'lit/decorators.js';
+import { customElement, property, state } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
 import { type LiveMusicGenerationConfig } from '@google/genai';
+import {
+    AUTOMATABLE_FIELDS,
+    AutomatableField,
+    AutomationChange,
+    AutomationState,
+    AutomationTarget,
+    configTarget,
+    LfoSettings,
+} from '../automation';
+import { EffectsSettings } from '../effectsRack';
+import { describeMidiSource, findMidiSource, MidiBindings, MidiTarget } from '../midi';
+import { SettingsPreset } from '../presets';
+import './LfoControl';
+import './PresetManager';
+import './TempoTapper';
 
 /** A panel for managing real-time music generation settings. */
 @customElement('settings-controller')
@@ -38,6 +53,7 @@ export class SettingsController extends LitElement {
       border-radius: 3px;
     }
     .setting {
+      position: relative;
       margin-bottom: 0.5vmin;
       display: flex;
       flex-direction: column;
@@ -51,6 +67,29 @@ export class SettingsController extends LitElement {
       white-space: nowrap;
       user-select: none;
     }
+    .midi-learn {
+      position: absolute;
+      inset: 0;
+      z-index: 5;
+      background: rgba(0, 0, 0, 0.6);
+      color: #fff;
+      border: 2px dashed #888;
+      border-radius: 4px;
+      font: inherit;
+      cursor: pointer;
+    }
+    .midi-learn.armed {
+      border-color: var(--accent-color, #5200ff);
+      border-style: solid;
+    }
+    .setting-header {
+      display: flex;
+      align-items: center;
+      gap: 0.6vmin;
+    }
+    .setting-header label {
+      flex: 1;
+    }
     label span:last-child {
       font-weight: normal;
       color: #ccc;
@@ -238,6 +277,14 @@ export class SettingsController extends LitElement {
         // bpm, seed, density, brightness, scale etc. can be undefined by default
     };
 
+    /** Current master effects, so presets can save them alongside the settings. */
+    @property({ attribute: false }) effects: EffectsSettings | null = null;
+    /** LFOs attached anywhere in the game; only config fields are shown here. */
+    @property({ attribute: false }) automation: ReadonlyMap<AutomationTarget, AutomationState> = new Map();
+    @property({ type: Boolean }) midiLearning = false;
+    @property({ attribute: false }) midiArmed: MidiTarget | null = null;
+    @property({ attribute: false }) midiBindings: MidiBindings = new Map();
+
     @state() private config: LiveMusicGenerationConfig = { ...this.defaultConfig };
     @state() showAdvanced = false;
     @state() autoDensity = true;
@@ -256,6 +303,16 @@ export class SettingsController extends LitElement {
         this.requestUpdate('config', this.config);
     }
 
+    /** Replaces the whole config, e.g. when the game dictates a seed. */
+    public setConfig(config: LiveMusicGenerationConfig) {
+        this.config = { ...config };
+        this.autoDensity = config.density === undefined;
+        if (config.density !== undefined) this.lastDefinedDensity = config.density;
+        this.autoBrightness = config.brightness === undefined;
+        if (config.brightness !== undefined) this.lastDefinedBrightness = config.brightness;
+        this.dispatchSettingsChange();
+    }
+
     private updateSliderBackground(inputEl: HTMLInputElement) {
         if (inputEl.type !== 'range') {
             return;
@@ -351,6 +408,73 @@ export class SettingsController extends LitElement {
         );
     }
 
+    /** Sets the BPM from tapping or clapping; a burst of taps is one continuous edit. */
+    private handleTempoDetected(e: CustomEvent<number>) {
+        if (e.detail === this.config.bpm) return;
+        this.config = { ...this.config, bpm: e.detail };
+        this.dispatchSettingsChange();
+    }
+
+    /** Fired when a slider or number field is released, ending one continuous edit. */
+    private dispatchSettingsCommitted() {
+        this.dispatchEvent(new CustomEvent('settings-committed', { bubbles: true, composed: true }));
+    }
+
+    /**
+     * Hands a recalled preset to the game as `preset-applied`, which applies its
+     * settings and effects as one edit. The preset is merged over the current
+     * settings, so anything it leaves out (scale, mutes) stays as it was, and the
+     * seed is kept, since the game may have set it (the daily challenge does).
+     */
+    private handlePresetRecalled(e: CustomEvent<SettingsPreset>) {
+        const preset = e.detail;
+        this.dispatchEvent(
+            new CustomEvent<SettingsPreset>('preset-applied', {
+                detail: {
+                    name: preset.name,
+                    config: { ...this.config, ...preset.config, seed: this.config.seed },
+                    effects: preset.effects ? structuredClone(preset.effects) : undefined,
+                },
+                bubbles: true,
+                composed: true,
+            }),
+        );
+    }
+
+    private dispatchAutomationChanged(field: AutomatableField, settings: LfoSettings | null) {
+        this.dispatchEvent(
+            new CustomEvent<AutomationChange>('automation-changed', {
+                detail: { target: configTarget(field), settings },
+                bubbles: true,
+                composed: true,
+            }),
+        );
+    }
+
+    /** While MIDI-learn is on, covers the setting so a click picks it as the target. */
+    private renderMidiLearn(field: AutomatableField) {
+        if (!this.midiLearning) return '';
+        const target: MidiTarget = `config:${field}`;
+        const source = findMidiSource(this.midiBindings, target);
+        const armed = this.midiArmed === target;
+        const label = armed ? 'Move a knob or fader…' : (source ? describeMidiSource(source) : 'Click to map');
+        return html`<button
+          class="midi-learn ${armed ? 'armed' : ''}"
+          @click=${() => this.dispatchEvent(new CustomEvent<MidiTarget>('midi-learn', { detail: target, bubbles: true, composed: true }))}>
+          ${label}
+        </button>`;
+    }
+
+    private renderLfo(field: AutomatableField) {
+        const state = this.automation.get(configTarget(field));
+        return html`<lfo-control
+          .range=${AUTOMATABLE_FIELDS[field]}
+          .settings=${state?.settings ?? null}
+          .value=${state?.value}
+          @lfo-changed=${(e: CustomEvent<LfoSettings | null>) => this.dispatchAutomationChanged(field, e.detail)}>
+        </lfo-control>`;
+    }
+
     private toggleAdvancedSettings() {
         this.showAdvanced = !this.showAdvanced;
     }
@@ -378,33 +502,59 @@ export class SettingsController extends LitElement {
         ]);
 
         return html`
+      <preset-manager
+        .config=${cfg}
+        .effects=${this.effects}
+        @preset-recalled=${this.handlePresetRecalled}>
+      </preset-manager>
       <div class="core-settings-row">
         <div class="setting">
-          <label for="temperature">Temperature<span>${(cfg.temperature ?? this.defaultConfig.temperature!).toFixed(1)}</span></label>
-          <input type="range" id="temperature" min="0" max="3" step="0.1" .value=${(cfg.temperature ?? this.defaultConfig.temperature!).toString()} @input=${this.handleInputChange} />
+          <div class="setting-header">
+            <label for="temperature">Temperature<span>${(cfg.temperature ?? this.defaultConfig.temperature!).toFixed(1)}</span></label>
+            ${this.renderLfo('temperature')}
+            ${this.renderMidiLearn('temperature')}
+          </div>
+          <input type="range" id="temperature" min="0" max="3" step="0.1" .value=${(cfg.temperature ?? this.defaultConfig.temperature!).toString()} @input=${this.handleInputChange} @change=${this.dispatchSettingsCommitted} />
         </div>
         <div class="setting">
-          <label for="guidance">Guidance<span>${(cfg.guidance ?? this.defaultConfig.guidance!).toFixed(1)}</span></label>
-          <input type="range" id="guidance" min="0" max="6" step="0.1" .value=${(cfg.guidance ?? this.defaultConfig.guidance!).toString()} @input=${this.handleInputChange} />
+          <div class="setting-header">
+            <label for="guidance">Guidance<span>${(cfg.guidance ?? this.defaultConfig.guidance!).toFixed(1)}</span></label>
+            ${this.renderLfo('guidance')}
+            ${this.renderMidiLearn('guidance')}
+          </div>
+          <input type="range" id="guidance" min="0" max="6" step="0.1" .value=${(cfg.guidance ?? this.defaultConfig.guidance!).toString()} @input=${this.handleInputChange} @change=${this.dispatchSettingsCommitted} />
         </div>
         <div class="setting">
-          <label for="topK">Top K<span>${cfg.topK ?? this.defaultConfig.topK!}</span></label>
-          <input type="range" id="topK" min="1" max="100" step="1" .value=${(cfg.topK ?? this.defaultConfig.topK!).toString()} @input=${this.handleInputChange} />
+          <div class="setting-header">
+            <label for="topK">Top K<span>${cfg.topK ?? this.defaultConfig.topK!}</span></label>
+            ${this.renderLfo('topK')}
+            ${this.renderMidiLearn('topK')}
+          </div>
+          <input type="range" id="topK" min="1" max="100" step="1" .value=${(cfg.topK ?? this.defaultConfig.topK!).toString()} @input=${this.handleInputChange} @change=${this.dispatchSettingsCommitted} />
         </div>
       </div>
       <hr class="divider" />
       <div class=${advancedClasses}>
         <div class="setting">
           <label for="seed">Seed</label>
-          <input type="number" id="seed" .value=${cfg.seed ?? ''} @input=${this.handleInputChange} placeholder="Auto" />
+          <input type="number" id="seed" .value=${cfg.seed ?? ''} @input=${this.handleInputChange} @change=${this.dispatchSettingsCommitted} placeholder="Auto" />
         </div>
         <div class="setting">
-          <label for="bpm">BPM</label>
-          <input type="number" id="bpm" min="60" max="180" .value=${cfg.bpm ?? ''} @input=${this.handleInputChange} placeholder="Auto" />
+          <div class="setting-header">
+            <label for="bpm">BPM</label>
+            ${this.renderLfo('bpm')}
+            ${this.renderMidiLearn('bpm')}
+          </div>
+          <input type="number" id="bpm" min="60" max="180" .value=${cfg.bpm ?? ''} @input=${this.handleInputChange} @change=${this.dispatchSettingsCommitted} placeholder="Auto" />
+          <tempo-tapper @tempo-detected=${this.handleTempoDetected} @tempo-settled=${this.dispatchSettingsCommitted}></tempo-tapper>
         </div>
         <div class="setting" auto=${this.autoDensity}>
-          <label for="density">Density</label>
-          <input type="range" id="density" min="0" max="1" step="0.05" .value=${(this.autoDensity ? (this.lastDefinedDensity ?? 0.5) : (cfg.density ?? 0.5)).toString()} @input=${this.handleInputChange} />
+          <div class="setting-header">
+            <label for="density">Density</label>
+            ${this.renderLfo('density')}
+            ${this.renderMidiLearn('density')}
+          </div>
+          <input type="range" id="density" min="0" max="1" step="0.05" .value=${(this.autoDensity ? (this.lastDefinedDensity ?? 0.5) : (cfg.density ?? 0.5)).toString()} @input=${this.handleInputChange} @change=${this.dispatchSettingsCommitted} />
           <div class="auto-row">
             <input type="checkbox" id="auto-density" .checked=${this.autoDensity} @input=${this.handleInputChange} />
             <label for="auto-density">Auto</label>
@@ -412,8 +562,12 @@ export class SettingsController extends LitElement {
           </div>
         </div>
         <div class="setting" auto=${this.autoBrightness}>
-          <label for="brightness">Brightness</label>
-          <input type="range" id="brightness" min="0" max="1" step="0.05" .value=${(this.autoBrightness ? (this.lastDefinedBrightness ?? 0.5) : (cfg.brightness ?? 0.5)).toString()} @input=${this.handleInputChange} />
+          <div class="setting-header">
+            <label for="brightness">Brightness</label>
+            ${this.renderLfo('brightness')}
+            ${this.renderMidiLearn('brightness')}
+          </div>
+          <input type="range" id="brightness" min="0" max="1" step="0.05" .value=${(this.autoBrightness ? (this.lastDefinedBrightness ?? 0.5) : (cfg.brightness ?? 0.5)).toString()} @input=${this.handleInputChange} @change=${this.dispatchSettingsCommitted} />
           <div class="auto-row">
             <input type="checkbox" id="auto-brightness" .checked=${this.autoBrightness} @input=${this.handleInputChange} />
             <label for="auto-brightness">Auto</label>
@@ -0,0 +1,134 @@
+import { css, html, LitElement } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+import { MicOnsetInput } from '../micOnsetInput';
+import { TapTempo } from '../tempoDetection';
+
+const SETTLE_MS = 2000; // Quiet time after the last tap that ends a tempo gesture
+
+/**
+ * Sets the tempo by tapping a button (mouse, touch, Space or Enter) or by
+ * clapping into the microphone. Fires `tempo-detected` with each new BPM
+ * estimate and `tempo-settled` once the taps stop.
+ */
+@customElement('tempo-tapper')
+export class TempoTapper extends LitElement {
+    static override styles = css`
+    :host {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 0.6vmin;
+      font-size: 1.3vmin;
+      color: #ccc;
+    }
+    button {
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.3vmin 0.8vmin;
+      font: inherit;
+      cursor: pointer;
+      user-select: none;
+    }
+    button:hover {
+      border-color: #aaa;
+    }
+    button.pulse {
+      border-color: var(--accent-color, #5200ff);
+      background-color: color-mix(in srgb, var(--accent-color, #5200ff) 40%, #2a2a2a);
+    }
+    button[aria-pressed='true'] {
+      border-color: #ff6b6b;
+      color: #ff6b6b;
+    }
+    .status {
+      white-space: nowrap;
+      font-variant-numeric: tabular-nums;
+    }
+  `;
+
+    @state() private status = '';
+    @state() private listening = false;
+    @state() private pulse = false;
+
+    private tapTempo = new TapTempo(SETTLE_MS);
+    private mic = new MicOnsetInput((timeMs) => this.registerOnset(timeMs));
+    private settleTimeoutId: number | undefined;
+    private pulseTimeoutId: number | undefined;
+
+    override disconnectedCallback() {
+        super.disconnectedCallback();
+        this.mic.stop();
+        this.listening = false;
+        window.clearTimeout(this.settleTimeoutId);
+        window.clearTimeout(this.pulseTimeoutId);
+    }
+
+    private registerOnset(timeMs: number = performance.now()) {
+        const bpm = this.tapTempo.tap(timeMs);
+        this.status = bpm === null ? `${this.tapTempo.count} tap${this.tapTempo.count === 1 ? '' : 's'}…` : `${bpm} BPM`;
+        this.flash();
+        if (bpm !== null) {
+            this.dispatchEvent(new CustomEvent<number>('tempo-detected', { detail: bpm }));
+        }
+        window.clearTimeout(this.settleTimeoutId);
+        this.settleTimeoutId = window.setTimeout(() => {
+            this.tapTempo.reset();
+            if (bpm === null && !this.listening) this.status = '';
+            this.dispatchEvent(new CustomEvent('tempo-settled'));
+        }, SETTLE_MS);
+    }
+
+    private flash() {
+        this.pulse = true;
+        window.clearTimeout(this.pulseTimeoutId);
+        this.pulseTimeoutId = window.setTimeout(() => { this.pulse = false; }, 100);
+    }
+
+    private handleTapPointerDown(e: PointerEvent) {
+        // Tap on press rather than click, which lands on release and feels late.
+        e.preventDefault();
+        this.registerOnset();
+    }
+
+    private handleTapKeydown(e: KeyboardEvent) {
+        if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) {
+            e.preventDefault();
+            this.registerOnset();
+        }
+    }
+
+    private async toggleMic() {
+        if (this.listening) {
+            this.mic.stop();
+            this.listening = false;
+            this.status = '';
+            return;
+        }
+        try {
+            await this.mic.start();
+            // Still false if a request was already pending or the tapper was stopped meanwhile.
+            this.listening = this.mic.active;
+            if (this.listening) this.status = 'Listening… clap the beat';
+        } catch (e: unknown) {
+            console.warn('Microphone unavailable:', e);
+            this.status = e instanceof DOMException && e.name === 'NotAllowedError' ? 'Microphone blocked' : 'No microphone';
+        }
+    }
+
+    override render() {
+        return html`
+      <button
+        class=${this.pulse ? 'pulse' : ''}
+        title="Tap the beat (Space or Enter while focused)"
+        @pointerdown=${this.handleTapPointerDown}
+        @keydown=${this.handleTapKeydown}>Tap</button>
+      <button
+        aria-pressed=${this.listening ? 'true' : 'false'}
+        title=${this.listening ? 'Stop listening' : 'Clap the beat into the microphone'}
+        @click=${this.toggleMic}>🎤 Clap</button>
+      <span class="status" aria-live="polite">${this.status}</span>
+    `;
+    }
+}
@@ -46,16 +46,30 @@ export class WeightSlider extends LitElement {
       border-radius: 4px;
       box-shadow: 0 0 3px rgba(0, 0, 0, 0.7);
     }
+    #target {
+      position: absolute;
+      left: -3px;
+      right: -3px;
+      height: 2px;
+      background-color: #fff;
+      box-shadow: 0 0 3px rgba(0, 0, 0, 0.7);
+      pointer-events: none;
+    }
   `;
 
     @property({ type: Number }) value = 0; // Range 0-2
     @property({ type: String }) color = '#000';
+    /** In glide mode the gesture sets `target` and the thumb follows as the parent ramps `value`. */
+    @property({ type: Boolean }) glide = false;
+    @property({ type: Number }) target: number | null = null;
 
     @query('.scroll-container') private scrollContainer!: HTMLDivElement;
 
     private dragStartPos = 0;
     private dragStartValue = 0;
     private containerBounds: DOMRect | null = null;
+    private wheelCommitTimeoutId: number | undefined;
+    private readonly wheelCommitDelay = 300; // ms of wheel inactivity that ends a gesture
 
     constructor() {
         super();
@@ -69,7 +83,7 @@ export class WeightSlider extends LitElement {
         e.preventDefault();
         this.containerBounds = this.scrollContainer.getBoundingClientRect();
         this.dragStartPos = e.clientY;
-        this.dragStartValue = this.value;
+        this.dragStartValue = this.currentValue;
         document.body.classList.add('dragging');
         window.addEventListener('pointermove', this.handlePointerMove);
         window.addEventListener('touchmove', this.handleTouchMove, {
@@ -92,14 +106,16 @@ export class WeightSlider extends LitElement {
         window.removeEventListener('pointermove', this.handlePointerMove);
         document.body.classList.remove('dragging');
         this.containerBounds = null;
+        this.dispatchChangeEvent();
     }
 
     private handleWheel(e: WheelEvent) {
         e.preventDefault();
         const delta = e.deltaY;
-        this.value = this.value + delta * -0.005;
-        this.value = Math.max(0, Math.min(2, this.value));
+        this.setCurrentValue(Math.max(0, Math.min(2, this.currentValue + delta * -0.005)));
         this.dispatchInputEvent();
+        window.clearTimeout(this.wheelCommitTimeoutId);
+        this.wheelCommitTimeoutId = window.setTimeout(() => this.dispatchChangeEvent(), this.wheelCommitDelay);
     }
 
     private updateValueFromPosition(clientY: number) {
@@ -109,13 +125,31 @@ export class WeightSlider extends LitElement {
         const relativeY = clientY - this.containerBounds.top;
         const normalizedValue =
             1 - Math.max(0, Math.min(trackHeight, relativeY)) / trackHeight;
-        this.value = normalizedValue * 2;
+        this.setCurrentValue(normalizedValue * 2);
 
         this.dispatchInputEvent();
     }
 
+    /** The value the user is steering: the target while gliding, otherwise the value itself. */
+    private get currentValue(): number {
+        return this.glide ? (this.target ?? this.value) : this.value;
+    }
+
+    private setCurrentValue(value: number) {
+        if (this.glide) {
+            this.target = value;
+        } else {
+            this.value = value;
+        }
+    }
+
     private dispatchInputEvent() {
-        this.dispatchEvent(new CustomEvent<number>('input', { detail: this.value }));
+        this.dispatchEvent(new CustomEvent<number>('input', { detail: this.currentValue }));
+    }
+
+    /** Fired once a drag or wheel gesture ends, like a native range input's `change`. */
+    private dispatchChangeEvent() {
+        this.dispatchEvent(new CustomEvent<number>('change', { detail: this.currentValue }));
     }
 
     override render() {
@@ -125,7 +159,8 @@ export class WeightSlider extends LitElement {
             backgroundColor: this.color,
             display: this.value > 0.01 ? 'block' : 'none',
         });
-        const displayValue = this.value.toFixed(2);
+        const displayValue = this.currentValue.toFixed(2);
+        const showTarget = this.glide && this.target !== null && Math.abs(this.target - this.value) > 0.01;
 
         return html`
       <div
@@ -134,6 +169,7 @@ export class WeightSlider extends LitElement {
         @wheel=${this.handleWheel}>
         <div class="slider-container">
           <div id="thumb" style=${thumbStyle}></div>
+          ${showTarget ? html`<div id="target" style=${styleMap({ bottom: `${(this.target! / 2) * 100}%` })}></div>` : ''}
         </div>
         <div class="value-display">${displayValue}</div>
       </div>
@@ -0,0 +1,113 @@
+import { css, html, LitElement } from 'lit';
+import { customElement, property, query } from 'lit/decorators.js';
+import { WordPack } from '../types';
+
+/** Lets the player choose a word pack, or load one from a URL, before a game starts. */
+@customElement('word-pack-picker')
+export class WordPackPicker extends LitElement {
+    static override styles = css`
+    :host {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      justify-content: center;
+      gap: 1vmin;
+      color: #aaa;
+      font-size: 1.5vmin;
+    }
+    select,
+    input[type='text'] {
+      background-color: #222;
+      color: #eee;
+      border: 1px solid #444;
+      border-radius: 4px;
+      padding: 0.5vmin;
+      font-size: 1.5vmin;
+      font-family: inherit;
+    }
+    select:focus,
+    input[type='text']:focus {
+      outline: none;
+      border-color: var(--accent-color, #9900ff);
+    }
+    input[type='text'] {
+      width: 22vmin;
+    }
+    input[type='text']::placeholder {
+      color: #777;
+    }
+    button {
+      background-color: #444;
+      color: white;
+      border: none;
+      border-radius: 4px;
+      padding: 0.5vmin 1.2vmin;
+      font-size: 1.5vmin;
+      cursor: pointer;
+    }
+    button:hover {
+      background-color: #666;
+    }
+    .description {
+      flex-basis: 100%;
+      text-align: center;
+      font-size: 1.3vmin;
+      color: #888;
+    }
+  `;
+
+    @property({ type: Array }) packs: WordPack[] = [];
+    @property({ type: String }) selectedPackId = '';
+
+    @query('#pack-url') private urlInputEl!: HTMLInputElement;
+
+    private handlePackChange(e: Event) {
+        const packId = (e.target as HTMLSelectElement).value;
+        this.dispatchEvent(
+            new CustomEvent<string>('word-pack-selected', {
+                detail: packId,
+                bubbles: true,
+                composed: true,
+            }),
+        );
+    }
+
+    private submitUrl() {
+        const url = this.urlInputEl.value.trim();
+        if (!url) return;
+        this.dispatchEvent(
+            new CustomEvent<string>('word-pack-url-submitted', {
+                detail: url,
+                bubbles: true,
+                composed: true,
+            }),
+        );
+        this.urlInputEl.value = '';
+    }
+
+    private handleUrlKeydown(e: KeyboardEvent) {
+        if (e.key === 'Enter') {
+            this.submitUrl();
+        }
+    }
+
+    override render() {
+        const selectedPack = this.packs.find(p => p.id === this.selectedPackId);
+        return html`
+      <label for="pack-select">Word pack</label>
+      <select id="pack-select" .value=${this.selectedPackId} @change=${this.handlePackChange}>
+        ${this.packs.map(pack => html`<option value=${pack.id} ?selected=${pack.id === this.selectedPackId}>
+          ${pack.name} (${pack.words.length})
+        </option>`)}
+      </select>
+      <input
+        type="text"
+        id="pack-url"
+        placeholder="…or load pack from URL"
+        aria-label="Word pack URL"
+        @keydown=${this.handleUrlKeydown} />
+      <button @click=${this.submitUrl}>Load</button>
+      ${selectedPack?.description ? html`<div class="description">${selectedPack.description}</div>` : ''}
+    `;
+    }
+}
@@ -0,0 +1,164 @@
+import { type LiveMusicServerMessage } from '@google/genai';
+import { MusicSession, MusicSessionProvider } from './musicSession';
+import { RandomSource } from './random';
+
+export type ConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'failed';
+
+export interface ConnectionStatus {
+    state: ConnectionState;
+    /** Reconnect attempt currently scheduled or in flight; 0 when not retrying. */
+    attempt: number;
+    maxRetries: number;
+    /** Delay before the scheduled attempt, in milliseconds. */
+    retryInMs: number;
+}
+
+export interface ConnectionHandlers {
+    onmessage: (message: LiveMusicServerMessage) => void;
+    /** Called with every newly opened session, before it is reported as connected. */
+    onConnected: (session: MusicSession, reconnected: boolean) => Promise<void> | void;
+    /** Called once when a live session drops, before the first retry is scheduled. */
+    onLost: (reason: string) => void;
+    onStatus: (status: ConnectionStatus) => void;
+}
+
+export interface ConnectionManagerOptions {
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    maxRetries?: number;
+    random?: RandomSource;
+}
+
+/**
+ * Owns the music session: opens it through the current provider and, when it
+ * errors or closes uncleanly, reconnects with exponential backoff and jitter
+ * until `maxRetries` attempts have failed.
+ */
+export class ConnectionManager {
+    private readonly baseDelayMs: number;
+    private readonly maxDelayMs: number;
+    private readonly maxRetries: number;
+    private readonly random: RandomSource;
+
+    private current: MusicSession | undefined;
+    private state: ConnectionState = 'idle';
+    private attempt = 0;
+    private retryInMs = 0;
+    private retryTimer: number | undefined;
+    // Bumped whenever a session is replaced so callbacks from older sessions are ignored.
+    private generation = 0;
+
+    constructor(
+        private readonly getProvider: () => MusicSessionProvider,
+        private readonly handlers: ConnectionHandlers,
+        options: ConnectionManagerOptions = {},
+    ) {
+        this.baseDelayMs = options.baseDelayMs ?? 500;
+        this.maxDelayMs = options.maxDelayMs ?? 15000;
+        this.maxRetries = options.maxRetries ?? 6;
+        this.random = options.random ?? Math.random;
+    }
+
+    /** The live session, or undefined while disconnected or reconnecting. */
+    get session(): MusicSession | undefined {
+        return this.current;
+    }
+
+    get status(): ConnectionStatus {
+        return { state: this.state, attempt: this.attempt, maxRetries: this.maxRetries, retryInMs: this.retryInMs };
+    }
+
+    /** Connects now, cancelling any scheduled retry and resetting the retry count. */
+    async connect(): Promise<boolean> {
+        this.close();
+        this.attempt = 0;
+        this.setState('connecting');
+        return this.open(false);
+    }
+
+    /** Closes the session cleanly without reconnecting. */
+    disconnect() {
+        this.close();
+        this.attempt = 0;
+        this.setState('idle');
+    }
+
+    private close() {
+        window.clearTimeout(this.retryTimer);
+        this.retryTimer = undefined;
+        this.generation++;
+        const session = this.current;
+        this.current = undefined;
+        session?.close();
+    }
+
+    private async open(reconnected: boolean): Promise<boolean> {
+        const generation = ++this.generation;
+        const isCurrent = () => generation === this.generation;
+        let session: MusicSession;
+        try {
+            session = await this.getProvider().connect({
+                onmessage: (message: LiveMusicServerMessage) => {
+                    if (isCurrent()) this.handlers.onmessage(message);
+                },
+                onerror: (e: ErrorEvent) => {
+                    console.error('Connection error:', e.message);
+                    if (isCurrent()) this.handleLost(`Connection error: ${e.message || 'unknown'}`);
+                },
+                onclose: (e: CloseEvent) => {
+                    console.log('Connection closed.', e.reason);
+                    if (isCurrent() && !e.wasClean) this.handleLost('Connection closed unexpectedly');
+                },
+            });
+        } catch (err) {
+            console.error('Failed to connect to session:', err);
+            if (isCurrent()) this.scheduleRetry();
+            return false;
+        }
+        if (!isCurrent()) {
+            session.close();
+            return false;
+        }
+        this.current = session;
+        try {
+            await this.handlers.onConnected(session, reconnected);
+        } catch (err) {
+            console.error('Failed to restore session state:', err);
+        }
+        if (!isCurrent()) return false;
+        this.attempt = 0;
+        this.setState('connected');
+        return true;
+    }
+
+    private handleLost(reason: string) {
+        // Invalidate the dropped session so a trailing onclose after onerror is ignored.
+        this.generation++;
+        this.current = undefined;
+        this.handlers.onLost(reason);
+        this.scheduleRetry();
+    }
+
+    private scheduleRetry() {
+        if (this.attempt >= this.maxRetries) {
+            this.retryInMs = 0;
+            this.setState('failed');
+            return;
+        }
+        this.attempt++;
+        // Exponential backoff with "equal jitter": half the delay is fixed, half is random.
+        const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (this.attempt - 1));
+        this.retryInMs = Math.round(ceiling / 2 + this.random() * ceiling / 2);
+        this.setState('reconnecting');
+        const generation = this.generation;
+        this.retryTimer = window.setTimeout(() => {
+            this.retryTimer = undefined;
+            if (generation === this.generation) this.open(true);
+        }, this.retryInMs);
+    }
+
+    private setState(state: ConnectionState) {
+        this.state = state;
+        this.handlers.onStatus(this.status);
+    }
+}
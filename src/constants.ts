@@ -1,8 +1,54 @@
-export const WORD_LIST_SOURCE = [
-  "HAPPY", "MELODY", "RHYTHM", "GROOVE", "HARMONY", "BEAT", "CHORD",
-  "TEMPO", "FUNKY", "JAZZY", "SOUND", "MUSIC", "DANCE", "SING", "NOTE",
-  "PIANO", "GUITAR", "DRUMS", "BASS", "VOICE", "ROCK", "POP", "BLUES",
-  "VIBE", "SOUL", "LOOP", "SYNC", "TUNE", "FLOW"
+import { RandomSource } from './random';
+import { DifficultyLevel, DifficultyPreset, WordPack } from './types';
+
+/** Built-in pack, always available even when no pack files can be fetched. */
+export const DEFAULT_WORD_PACK: WordPack = {
+  id: 'classic',
+  name: 'Classic',
+  description: 'A mix of moods, genres, instruments and music theory.',
+  words: [
+    { answer: 'HAPPY', category: 'mood', difficulty: 'easy', prompt: 'upbeat happy major key pop', clue: 'How a major key often makes you feel' },
+    { answer: 'MELODY', category: 'theory', difficulty: 'medium', prompt: 'catchy lead melody', clue: 'The tune you hum after the song ends' },
+    { answer: 'RHYTHM', category: 'theory', difficulty: 'hard', prompt: 'tight syncopated rhythm section', clue: 'The pattern of beats and rests in time' },
+    { answer: 'GROOVE', category: 'mood', difficulty: 'medium', prompt: 'deep pocket groove', clue: 'The feel that makes you nod your head' },
+    { answer: 'HARMONY', category: 'theory', difficulty: 'hard', prompt: 'lush vocal harmony pads', clue: 'Notes sounding together in agreement' },
+    { answer: 'BEAT', category: 'theory', difficulty: 'easy', prompt: 'punchy four on the floor beat', clue: 'The steady pulse you tap your foot to' },
+    { answer: 'CHORD', category: 'theory', difficulty: 'medium', prompt: 'warm sustained piano chords', clue: 'Three or more notes played at once' },
+    { answer: 'TEMPO', category: 'theory', difficulty: 'medium', prompt: 'driving uptempo energy', clue: 'How fast or slow the music moves', synonyms: ['BPM', 'SPEED'] },
+    { answer: 'FUNKY', category: 'genre', difficulty: 'medium', prompt: 'funky slap bass and clavinet', clue: 'Syncopated, soulful and slap-bass heavy' },
+    { answer: 'JAZZY', category: 'genre', difficulty: 'medium', prompt: 'jazzy swing with brushed drums', clue: 'Swinging with improvised flair' },
+    { answer: 'SOUND', category: 'mood', difficulty: 'easy', clue: 'What the ear picks up' },
+    { answer: 'MUSIC', category: 'mood', difficulty: 'easy', clue: 'Organized sound, the point of this game' },
+    { answer: 'DANCE', category: 'genre', difficulty: 'easy', prompt: 'euphoric dance floor synths', clue: 'What you do on the floor when the beat drops' },
+    { answer: 'SING', category: 'instrument', difficulty: 'easy', prompt: 'soaring sung vocal line', clue: 'Use your voice to carry a tune' },
+    { answer: 'NOTE', category: 'theory', difficulty: 'easy', prompt: 'single sustained bell note', clue: 'A single pitch on the staff' },
+    { answer: 'PIANO', category: 'instrument', difficulty: 'easy', prompt: 'expressive grand piano', clue: 'Eighty-eight keys, black and white', synonyms: ['PIANOFORTE'] },
+    { answer: 'GUITAR', category: 'instrument', difficulty: 'medium', prompt: 'clean electric guitar riff', clue: 'Six strings and a fretboard', synonyms: ['GUITARS'] },
+    { answer: 'DRUMS', category: 'instrument', difficulty: 'easy', prompt: 'live acoustic drum kit', clue: 'Kit of skins and cymbals', synonyms: ['DRUM', 'DRUMKIT'] },
+    { answer: 'BASS', category: 'instrument', difficulty: 'easy', prompt: 'deep rolling bassline', clue: 'The low end that holds the groove' },
+    { answer: 'VOICE', category: 'instrument', difficulty: 'medium', prompt: 'ethereal wordless voice', clue: 'The instrument everyone is born with' },
+    { answer: 'ROCK', category: 'genre', difficulty: 'easy', prompt: 'distorted rock guitars', clue: 'Loud guitars and a backbeat', synonyms: ['ROCKNROLL'] },
+    { answer: 'POP', category: 'genre', difficulty: 'easy', prompt: 'bright polished pop production', clue: 'Catchy chart music' },
+    { answer: 'BLUES', category: 'genre', difficulty: 'medium', prompt: 'slow delta blues guitar', clue: 'Twelve bars of feeling down' },
+    { answer: 'VIBE', category: 'mood', difficulty: 'medium', prompt: 'chilled lo-fi vibe', clue: 'The overall mood of a track' },
+    { answer: 'SOUL', category: 'genre', difficulty: 'medium', prompt: 'vintage soul horns and organ', clue: 'Gospel-rooted music full of feeling' },
+    { answer: 'LOOP', category: 'theory', difficulty: 'easy', prompt: 'hypnotic repeating synth loop', clue: 'A phrase repeated over and over' },
+    { answer: 'SYNC', category: 'theory', difficulty: 'hard', prompt: 'tightly synced arpeggiator', clue: 'Locked together in time', synonyms: ['SYNCH'] },
+    { answer: 'TUNE', category: 'theory', difficulty: 'easy', clue: 'A melody, or to adjust an instrument\'s pitch' },
+    { answer: 'FLOW', category: 'genre', difficulty: 'hard', prompt: 'laid-back hip hop flow', clue: 'A rapper\'s rhythmic delivery' },
+  ],
+};
+
+/** Guess normalization applied on top of the difficulty's typo tolerance. */
+export const DEFAULT_MATCH_OPTIONS = {
+  foldPlurals: true,
+  ignoreDiacritics: true,
+};
+
+/** Pack files shipped in public/word-packs, relative to the page. */
+export const BUILT_IN_WORD_PACK_URLS = [
+  'word-packs/genres.json',
+  'word-packs/instruments.json',
 ];
 
 export const COLORS = [
@@ -10,13 +56,23 @@ export const COLORS = [
   '#ffdd28', '#3dffab', '#d8ff3e', '#d9b2ff',
   '#FF6B6B', '#4ECDC4', '#45B7D1', '#F7B801',
   '#5F4B8B', '#E69A8D', '#00A8E8', '#007EA7'
-].sort(() => 0.5 - Math.random()); // Shuffle colors for variety too
+];
 
-export function getUnusedRandomColor(usedColors: string[]): string {
+export function getUnusedRandomColor(usedColors: string[], random: RandomSource = Math.random): string {
   const availableColors = COLORS.filter((c) => !usedColors.includes(c));
   if (availableColors.length === 0) {
     // If all colors used, pick a random one from the original list again
-    return COLORS[Math.floor(Math.random() * COLORS.length)];
+    return COLORS[Math.floor(random() * COLORS.length)];
   }
-  return availableColors[Math.floor(Math.random() * availableColors.length)];
+  return availableColors[Math.floor(random() * availableColors.length)];
 }
+
+/** Tempo used for timed rounds when the BPM setting is on Auto. */
+export const DEFAULT_BPM = 120;
+export const BEATS_PER_BAR = 4;
+
+export const DIFFICULTY_PRESETS: Record<DifficultyLevel, DifficultyPreset> = {
+  easy: { label: 'Easy', minWordLength: 3, maxWordLength: 5, hints: 6, roundBars: 12, wrongGuessPenalty: 0, maxAttempts: 8, maxEditDistance: 2 },
+  normal: { label: 'Normal', minWordLength: 3, maxWordLength: 7, hints: 3, roundBars: 8, wrongGuessPenalty: 0, maxAttempts: 6, maxEditDistance: 1 },
+  hard: { label: 'Hard', minWordLength: 5, maxWordLength: 12, hints: 1, roundBars: 4, wrongGuessPenalty: 25, maxAttempts: 4, maxEditDistance: 0 },
+};
@@ -0,0 +1,32 @@
+import { hashString } from './random';
+import { ScoreState } from './scoring';
+
+/** Words in each daily challenge. */
+export const DAILY_WORD_COUNT = 10;
+
+/** The local calendar date as YYYY-MM-DD, shared by everyone playing that day. */
+export function getDailyKey(date: Date = new Date()): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Seed for the day's word order, colors and music. Kept within a positive int32 for the Lyria `seed`. */
+export function getDailySeed(dailyKey: string): number {
+    return hashString(`daily:${dailyKey}`) & 0x7FFFFFFF;
+}
+
+function formatDuration(ms: number): string {
+    const totalSeconds = Math.round(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+/** Plain-text result that players can paste to compare their day. */
+export function formatDailySummary(dailyKey: string, score: ScoreState, totalWords: number, durationMs: number): string {
+    return [
+        `Word Music Game – Daily ${dailyKey}`,
+        `Score ${score.score} · ${score.correct}/${totalWords} solved · ${score.skipped} skipped`,
+        `Time ${formatDuration(durationMs)} · Best streak ${score.bestStreak}`,
+    ].join('\n');
+}
@@ -0,0 +1,231 @@
+export type FilterMode = 'lowpass' | 'highpass';
+
+export interface FilterSettings {
+    enabled: boolean;
+    mode: FilterMode;
+    frequency: number; // Hz
+    resonance: number; // Q
+}
+
+export interface EqSettings {
+    enabled: boolean;
+    low: number; // Gain in dB
+    mid: number;
+    high: number;
+}
+
+export interface ReverbSettings {
+    enabled: boolean;
+    mix: number; // 0-1
+    decay: number; // Impulse length in seconds
+}
+
+export interface DelaySettings {
+    enabled: boolean;
+    time: number; // Seconds
+    feedback: number; // 0-0.9
+    mix: number; // 0-1
+}
+
+export interface LimiterSettings {
+    enabled: boolean;
+    threshold: number; // dB
+}
+
+export interface EffectsSettings {
+    filter: FilterSettings;
+    eq: EqSettings;
+    reverb: ReverbSettings;
+    delay: DelaySettings;
+    limiter: LimiterSettings;
+}
+
+export type EffectId = keyof EffectsSettings;
+
+export const DEFAULT_EFFECTS: EffectsSettings = {
+    filter: { enabled: false, mode: 'lowpass', frequency: 20000, resonance: 0.7 },
+    eq: { enabled: false, low: 0, mid: 0, high: 0 },
+    reverb: { enabled: false, mix: 0.25, decay: 2.5 },
+    delay: { enabled: false, time: 0.375, feedback: 0.35, mix: 0.25 },
+    limiter: { enabled: true, threshold: -1 },
+};
+
+const EFFECTS_KEY = 'word-music-game.effects';
+const RAMP_SECONDS = 0.05; // Smoothing for parameter changes and bypass switches
+
+/**
+ * One slot in the rack. Audio reaches the output through a dry path and a
+ * processed path whose levels are ramped, so bypassing never clicks.
+ */
+class RackStage {
+    readonly input: GainNode;
+    readonly output: GainNode;
+    private readonly dry: GainNode;
+    private readonly wet: GainNode;
+
+    constructor(private readonly context: BaseAudioContext, effectIn: AudioNode, effectOut: AudioNode) {
+        this.input = context.createGain();
+        this.output = context.createGain();
+        this.dry = context.createGain();
+        this.wet = context.createGain();
+        this.input.connect(this.dry).connect(this.output);
+        this.input.connect(effectIn);
+        effectOut.connect(this.wet).connect(this.output);
+        this.setLevels(1, 0);
+    }
+
+    setLevels(dry: number, wet: number) {
+        const now = this.context.currentTime;
+        this.dry.gain.setTargetAtTime(dry, now, RAMP_SECONDS / 3);
+        this.wet.gain.setTargetAtTime(wet, now, RAMP_SECONDS / 3);
+    }
+}
+
+/**
+ * Master effects between the mix and the speakers: filter sweep, 3-band EQ,
+ * convolution reverb, delay and a limiter, in that order. The rack's nodes
+ * live for the whole session; callers connect into `input` and out of `output`.
+ */
+export class EffectsRack {
+    readonly input: GainNode;
+    readonly output: GainNode;
+
+    private readonly filter: BiquadFilterNode;
+    private readonly eqLow: BiquadFilterNode;
+    private readonly eqMid: BiquadFilterNode;
+    private readonly eqHigh: BiquadFilterNode;
+    private readonly convolver: ConvolverNode;
+    private readonly delay: DelayNode;
+    private readonly feedback: GainNode;
+    private readonly limiter: DynamicsCompressorNode;
+    private readonly stages: Record<EffectId, RackStage>;
+
+    private current: EffectsSettings = structuredClone(DEFAULT_EFFECTS);
+    private impulseDecay = 0;
+
+    constructor(private readonly context: BaseAudioContext) {
+        this.input = context.createGain();
+        this.output = context.createGain();
+
+        this.filter = context.createBiquadFilter();
+
+        this.eqLow = context.createBiquadFilter();
+        this.eqLow.type = 'lowshelf';
+        this.eqLow.frequency.value = 250;
+        this.eqMid = context.createBiquadFilter();
+        this.eqMid.type = 'peaking';
+        this.eqMid.frequency.value = 1000;
+        this.eqMid.Q.value = 0.8;
+        this.eqHigh = context.createBiquadFilter();
+        this.eqHigh.type = 'highshelf';
+        this.eqHigh.frequency.value = 4000;
+        this.eqLow.connect(this.eqMid).connect(this.eqHigh);
+
+        this.convolver = context.createConvolver();
+
+        this.delay = context.createDelay(2);
+        this.feedback = context.createGain();
+        this.delay.connect(this.feedback).connect(this.delay);
+
+        // Hard-knee, high-ratio compression acting as a brickwall-style limiter.
+        this.limiter = context.createDynamicsCompressor();
+        this.limiter.knee.value = 0;
+        this.limiter.ratio.value = 20;
+        this.limiter.attack.value = 0.003;
+        this.limiter.release.value = 0.1;
+
+        this.stages = {
+            filter: new RackStage(context, this.filter, this.filter),
+            eq: new RackStage(context, this.eqLow, this.eqHigh),
+            reverb: new RackStage(context, this.convolver, this.convolver),
+            delay: new RackStage(context, this.delay, this.delay),
+            limiter: new RackStage(context, this.limiter, this.limiter),
+        };
+        const order: EffectId[] = ['filter', 'eq', 'reverb', 'delay', 'limiter'];
+        this.input.connect(this.stages[order[0]].input);
+        order.forEach((id, i) => {
+            this.stages[id].output.connect(i < order.length - 1 ? this.stages[order[i + 1]].input : this.output);
+        });
+
+        this.apply(this.current);
+    }
+
+    get settings(): EffectsSettings {
+        return structuredClone(this.current);
+    }
+
+    /** Updates every parameter and bypass switch, ramping to avoid zipper noise. */
+    apply(settings: EffectsSettings) {
+        this.current = structuredClone(settings);
+        const { filter, eq, reverb, delay, limiter } = this.current;
+        const now = this.context.currentTime;
+        const ramp = (param: AudioParam, value: number) => param.setTargetAtTime(value, now, RAMP_SECONDS / 3);
+
+        this.filter.type = filter.mode;
+        ramp(this.filter.frequency, filter.frequency);
+        ramp(this.filter.Q, filter.resonance);
+        this.stages.filter.setLevels(filter.enabled ? 0 : 1, filter.enabled ? 1 : 0);
+
+        ramp(this.eqLow.gain, eq.low);
+        ramp(this.eqMid.gain, eq.mid);
+        ramp(this.eqHigh.gain, eq.high);
+        this.stages.eq.setLevels(eq.enabled ? 0 : 1, eq.enabled ? 1 : 0);
+
+        if (reverb.enabled && reverb.decay !== this.impulseDecay) {
+            // Regenerating the impulse is costly, so only do it while the reverb is in use.
+            this.convolver.buffer = createImpulse(this.context, reverb.decay);
+            this.impulseDecay = reverb.decay;
+        }
+        this.stages.reverb.setLevels(1, reverb.enabled ? reverb.mix : 0);
+
+        ramp(this.delay.delayTime, delay.time);
+        ramp(this.feedback.gain, Math.min(delay.feedback, 0.9));
+        this.stages.delay.setLevels(1, delay.enabled ? delay.mix : 0);
+
+        ramp(this.limiter.threshold, limiter.threshold);
+        this.stages.limiter.setLevels(limiter.enabled ? 0 : 1, limiter.enabled ? 1 : 0);
+    }
+}
+
+/** Stereo noise with an exponential decay, a cheap stand-in for a recorded room. */
+function createImpulse(context: BaseAudioContext, seconds: number): AudioBuffer {
+    const length = Math.max(1, Math.round(seconds * context.sampleRate));
+    const impulse = context.createBuffer(2, length, context.sampleRate);
+    for (let c = 0; c < impulse.numberOfChannels; c++) {
+        const data = impulse.getChannelData(c);
+        for (let i = 0; i < length; i++) {
+            data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, 3);
+        }
+    }
+    return impulse;
+}
+
+/** Fills in anything missing from stored settings with defaults. */
+export function normalizeEffects(raw: Partial<EffectsSettings> | null | undefined): EffectsSettings {
+    const result = structuredClone(DEFAULT_EFFECTS);
+    if (!raw || typeof raw !== 'object') return result;
+    for (const id of Object.keys(result) as EffectId[]) {
+        if (raw[id] && typeof raw[id] === 'object') {
+            Object.assign(result[id], raw[id]);
+        }
+    }
+    return result;
+}
+
+export function loadEffects(): EffectsSettings {
+    try {
+        const raw = localStorage.getItem(EFFECTS_KEY);
+        return normalizeEffects(raw ? JSON.parse(raw) : null);
+    } catch (e) {
+        console.warn('Could not read effects settings:', e);
+        return structuredClone(DEFAULT_EFFECTS);
+    }
+}
+
+export function saveEffects(settings: EffectsSettings) {
+    try {
+        localStorage.setItem(EFFECTS_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.warn('Could not save effects settings:', e);
+    }
+}
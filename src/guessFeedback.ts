@@ -0,0 +1,47 @@
+import { GuessAttempt, LetterStatus } from './types';
+
+const STATUS_RANK: Record<LetterStatus, number> = { absent: 0, present: 1, correct: 2 };
+
+/**
+ * Marks each letter of the guess Wordle-style. Exact matches are taken first so
+ * repeated letters are only marked present as often as they remain in the answer.
+ */
+export function evaluateGuess(guess: string, answer: string): LetterStatus[] {
+    const statuses: LetterStatus[] = new Array(guess.length).fill('absent');
+    const remaining = new Map<string, number>();
+
+    for (let i = 0; i < answer.length; i++) {
+        if (guess[i] === answer[i]) {
+            statuses[i] = 'correct';
+        } else {
+            remaining.set(answer[i], (remaining.get(answer[i]) ?? 0) + 1);
+        }
+    }
+    for (let i = 0; i < guess.length; i++) {
+        if (statuses[i] === 'correct') continue;
+        const count = remaining.get(guess[i]) ?? 0;
+        if (count > 0) {
+            statuses[i] = 'present';
+            remaining.set(guess[i], count - 1);
+        }
+    }
+    return statuses;
+}
+
+export function createAttempt(guess: string, answer: string): GuessAttempt {
+    return { guess, statuses: evaluateGuess(guess, answer) };
+}
+
+/** Best status seen so far for every letter used across the attempts. */
+export function getLetterStatuses(attempts: readonly GuessAttempt[]): Map<string, LetterStatus> {
+    const letters = new Map<string, LetterStatus>();
+    attempts.forEach(({ guess, statuses }) => {
+        statuses.forEach((status, i) => {
+            const current = letters.get(guess[i]);
+            if (current === undefined || STATUS_RANK[status] > STATUS_RANK[current]) {
+                letters.set(guess[i], status);
+            }
+        });
+    });
+    return letters;
+}
@@ -0,0 +1,91 @@
+import { WordEntry } from './types';
+
+/** How a guess was accepted, from strictest to most lenient. */
+export type MatchRule = 'exact' | 'diacritics' | 'plural' | 'synonym' | 'typo';
+
+export interface MatchResult {
+    readonly rule: MatchRule | null; // null when the guess was rejected
+    readonly nearMiss: boolean; // Rejected, but only just
+}
+
+export interface MatchOptions {
+    readonly maxEditDistance: number; // 0 disables typo tolerance
+    readonly foldPlurals: boolean;
+    readonly ignoreDiacritics: boolean;
+}
+
+/** Letters per allowed edit, so short words are not accepted from a single matching letter. */
+const LETTERS_PER_EDIT = 4;
+
+/** Uppercases and collapses whitespace; optionally strips accents (É → E). */
+export function normalizeGuess(value: string, ignoreDiacritics: boolean): string {
+    let normalized = value.trim().toUpperCase().replace(/\s+/g, ' ');
+    if (ignoreDiacritics) {
+        normalized = normalized.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    }
+    return normalized;
+}
+
+/** Reduces simple English plurals to a shared stem: DRUMS → DRUM, MELODIES → MELODY. */
+function foldPlural(word: string): string {
+    if (word.length > 4 && word.endsWith('IES')) return `${word.slice(0, -3)}Y`;
+    if (word.length > 3 && /(SS|X|CH|SH)ES$/.test(word)) return word.slice(0, -2);
+    if (word.length > 2 && word.endsWith('S') && !word.endsWith('SS')) return word.slice(0, -1);
+    return word;
+}
+
+/** Levenshtein distance with an adjacent-transposition step (optimal string alignment). */
+export function editDistance(a: string, b: string): number {
+    const rows = a.length + 1;
+    const cols = b.length + 1;
+    const d: number[][] = Array.from({ length: rows }, (_, i) => {
+        const row = new Array<number>(cols).fill(0);
+        row[0] = i;
+        return row;
+    });
+    for (let j = 0; j < cols; j++) d[0][j] = j;
+
+    for (let i = 1; i < rows; i++) {
+        for (let j = 1; j < cols; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[rows - 1][cols - 1];
+}
+
+/** Edits tolerated for this answer, scaled down for short words. */
+function allowedEdits(answer: string, options: MatchOptions): number {
+    return Math.min(options.maxEditDistance, Math.floor(answer.length / LETTERS_PER_EDIT));
+}
+
+export function matchGuess(rawGuess: string, entry: WordEntry, options: MatchOptions): MatchResult {
+    const answer = entry.answer;
+    if (rawGuess.trim().toUpperCase() === answer) {
+        return { rule: 'exact', nearMiss: false };
+    }
+
+    const guess = normalizeGuess(rawGuess, options.ignoreDiacritics);
+    const target = normalizeGuess(answer, options.ignoreDiacritics);
+    if (guess === target) {
+        return { rule: 'diacritics', nearMiss: false };
+    }
+    if (options.foldPlurals && foldPlural(guess) === foldPlural(target)) {
+        return { rule: 'plural', nearMiss: false };
+    }
+    const synonyms = (entry.synonyms ?? []).map(s => normalizeGuess(s, options.ignoreDiacritics));
+    if (synonyms.some(s => s === guess || (options.foldPlurals && foldPlural(s) === foldPlural(guess)))) {
+        return { rule: 'synonym', nearMiss: false };
+    }
+
+    const distance = editDistance(guess, target);
+    const allowed = allowedEdits(target, options);
+    if (distance <= allowed) {
+        return { rule: 'typo', nearMiss: false };
+    }
+    // One edit beyond what is accepted still earns a "so close".
+    return { rule: null, nearMiss: distance <= allowed + 1 };
+}
@@ -0,0 +1,303 @@
+import {
+    LiveMusicServerMessage,
+    type LiveMusicCallbacks,
+    type LiveMusicGenerationConfig,
+    type LiveMusicSetConfigParameters,
+    type LiveMusicSetWeightedPromptsParameters,
+    type WeightedPrompt,
+} from '@google/genai';
+import { MusicSession, MusicSessionProvider } from './musicSession';
+import { createSeededRandom, hashString, RandomSource } from './random';
+import { encode } from './utils';
+
+const SAMPLE_RATE = 48000;
+const CHANNELS = 2;
+const STEPS_PER_BAR = 16;
+const DEFAULT_BPM = 120;
+const LOOKAHEAD_MS = 3000; // Audio kept generated ahead of real time, like the server's buffer
+const SCHEDULER_INTERVAL_MS = 250;
+
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+const OSCILLATOR_TYPES: OscillatorType[] = ['sine', 'triangle', 'square', 'sawtooth'];
+
+/** Root pitch class of each Lyria scale, named by its major key. */
+const SCALE_ROOTS: Record<string, number> = {
+    C: 0, D_FLAT: 1, D: 2, E_FLAT: 3, E: 4, F: 5,
+    G_FLAT: 6, G: 7, A_FLAT: 8, A: 9, B_FLAT: 10, B: 11,
+};
+
+type VoiceRole = 'lead' | 'pad' | 'arp';
+
+/** Everything about a prompt's part that is derived from its text. */
+interface Voice {
+    readonly role: VoiceRole;
+    readonly wave: OscillatorType;
+    readonly octave: number;
+    readonly pattern: number; // 16-bit step mask
+    readonly degrees: number[]; // Scale degrees cycled through by the hits
+    readonly gain: number;
+}
+
+function midiToFrequency(note: number): number {
+    return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+function scaleRoot(config: LiveMusicGenerationConfig): number {
+    const key = config.scale ? String(config.scale).split('_MAJOR')[0] : 'C';
+    return SCALE_ROOTS[key] ?? 0;
+}
+
+function createVoice(prompt: WeightedPrompt, totalWeight: number): Voice {
+    const hash = hashString((prompt.text ?? '').toLowerCase());
+    const roles: VoiceRole[] = ['lead', 'pad', 'arp'];
+    return {
+        role: roles[hash % roles.length],
+        wave: OSCILLATOR_TYPES[(hash >>> 3) % OSCILLATOR_TYPES.length],
+        octave: 4 + ((hash >>> 6) % 2),
+        pattern: (hash >>> 8) & 0xFFFF,
+        degrees: [0, 1, 2, 3].map(i => (hash >>> (i * 3)) % MAJOR_SCALE.length),
+        gain: (prompt.weight ?? 0) / totalWeight,
+    };
+}
+
+/**
+ * Renders one bar at a time with an OfflineAudioContext. Each weighted prompt
+ * becomes a voice whose timbre and rhythm are derived from its text; bpm,
+ * scale, density, brightness, temperature and the mute flags shape the bar.
+ */
+class LocalSynthSession implements MusicSession {
+    private prompts: WeightedPrompt[] = [];
+    private config: LiveMusicGenerationConfig = {};
+    private playing = false;
+    private closed = false;
+    private bar = 0;
+    private generatedUntil = 0; // performance.now() time up to which audio has been emitted
+    private rendering = false;
+    private intervalId: number | undefined;
+
+    constructor(private readonly callbacks: LiveMusicCallbacks) { }
+
+    async setWeightedPrompts(params: LiveMusicSetWeightedPromptsParameters): Promise<void> {
+        this.prompts = params.weightedPrompts.filter(p => p.text && (p.weight ?? 0) > 0);
+    }
+
+    async setMusicGenerationConfig(params: LiveMusicSetConfigParameters): Promise<void> {
+        this.config = { ...params.musicGenerationConfig };
+    }
+
+    play() {
+        if (this.closed || this.playing) return;
+        this.playing = true;
+        this.generatedUntil = performance.now();
+        this.intervalId = window.setInterval(() => this.fillAhead(), SCHEDULER_INTERVAL_MS);
+        this.fillAhead();
+    }
+
+    pause() {
+        this.playing = false;
+        window.clearInterval(this.intervalId);
+        this.intervalId = undefined;
+    }
+
+    stop() {
+        this.pause();
+        this.bar = 0;
+    }
+
+    resetContext() {
+        this.bar = 0;
+    }
+
+    close() {
+        if (this.closed) return;
+        this.stop();
+        this.closed = true;
+        this.callbacks.onclose?.(new CloseEvent('close', { wasClean: true, reason: 'Session closed' }));
+    }
+
+    /** Sends setupComplete the way the server does once the socket is open. */
+    announceSetup() {
+        const message = new LiveMusicServerMessage();
+        message.setupComplete = {};
+        this.callbacks.onmessage(message);
+    }
+
+    private async fillAhead() {
+        if (this.rendering) return;
+        this.rendering = true;
+        try {
+            while (this.playing && this.generatedUntil - performance.now() < LOOKAHEAD_MS) {
+                const buffer = await this.renderBar(this.bar++);
+                if (!this.playing) break;
+                this.generatedUntil = Math.max(this.generatedUntil, performance.now()) + buffer.duration * 1000;
+                this.emit(buffer);
+            }
+        } catch (e: unknown) {
+            console.error('Local synth failed to render:', e);
+            const message = (e instanceof Error && e.message) || 'Local synth error';
+            this.callbacks.onerror?.(new ErrorEvent('error', { message }));
+            this.pause();
+        } finally {
+            this.rendering = false;
+        }
+    }
+
+    private emit(buffer: AudioBuffer) {
+        const frames = buffer.length;
+        const pcm = new Int16Array(frames * CHANNELS);
+        for (let c = 0; c < CHANNELS; c++) {
+            const channel = buffer.getChannelData(c);
+            for (let i = 0; i < frames; i++) {
+                const sample = Math.max(-1, Math.min(1, channel[i]));
+                pcm[i * CHANNELS + c] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
+            }
+        }
+        const message = new LiveMusicServerMessage();
+        message.serverContent = {
+            audioChunks: [{ data: encode(new Uint8Array(pcm.buffer)), mimeType: `audio/l16;rate=${SAMPLE_RATE};channels=${CHANNELS}` }],
+        };
+        this.callbacks.onmessage(message);
+    }
+
+    private async renderBar(barIndex: number): Promise<AudioBuffer> {
+        const config = this.config;
+        const bpm = config.bpm ?? DEFAULT_BPM;
+        const stepSeconds = 60 / bpm / 4;
+        const ctx = new OfflineAudioContext(CHANNELS, Math.ceil(stepSeconds * STEPS_PER_BAR * SAMPLE_RATE), SAMPLE_RATE);
+        const random = createSeededRandom(hashString(`${config.seed ?? 0}:${barIndex}`));
+        const density = config.density ?? 0.5;
+        const brightness = config.brightness ?? 0.5;
+        const root = scaleRoot(config);
+
+        const master = ctx.createBiquadFilter();
+        master.type = 'lowpass';
+        master.frequency.value = 600 + brightness * 9000;
+        master.connect(ctx.destination);
+
+        const playDrums = !config.muteDrums;
+        const playBass = !config.muteBass;
+        if (playDrums) this.renderDrums(ctx, master, stepSeconds, density, random);
+        if (playBass) this.renderBass(ctx, master, stepSeconds, density, root, barIndex);
+        if (!config.onlyBassAndDrums) {
+            const totalWeight = this.prompts.reduce((sum, p) => sum + (p.weight ?? 0), 0) || 1;
+            this.prompts.forEach(prompt => {
+                this.renderVoice(ctx, master, createVoice(prompt, totalWeight), stepSeconds, density, root, barIndex, random);
+            });
+        }
+        return ctx.startRendering();
+    }
+
+    /** Whether a step fires: the voice's own pattern, thinned or filled by density and temperature. */
+    private isHit(pattern: number, step: number, density: number, random: RandomSource): boolean {
+        const inPattern = ((pattern >>> step) & 1) === 1;
+        const mutation = (this.config.temperature ?? 1.1) / 3 * 0.4;
+        if (random() < mutation) return random() < density;
+        return inPattern ? random() < 0.4 + density * 0.6 : random() < density * 0.15;
+    }
+
+    private renderVoice(ctx: OfflineAudioContext, out: AudioNode, voice: Voice, stepSeconds: number, density: number,
+        root: number, barIndex: number, random: RandomSource) {
+        const gain = ctx.createGain();
+        gain.gain.value = 0.18 * voice.gain;
+        gain.connect(out);
+        let hitCount = barIndex; // Continue the melody across bars
+
+        if (voice.role === 'pad') {
+            // One sustained triad per bar, stepping through the voice's degrees.
+            const degree = voice.degrees[barIndex % voice.degrees.length];
+            [0, 2, 4].forEach(offset => {
+                const note = this.scaleNote(root, degree + offset, voice.octave);
+                this.playNote(ctx, gain, voice.wave, note, 0, stepSeconds * STEPS_PER_BAR, 0.35);
+            });
+            return;
+        }
+        const stride = voice.role === 'arp' ? 1 : 2;
+        for (let step = 0; step < STEPS_PER_BAR; step += stride) {
+            if (!this.isHit(voice.pattern, step, density, random)) continue;
+            const degree = voice.degrees[hitCount++ % voice.degrees.length] + (voice.role === 'arp' ? (step / 2) % 3 * 2 : 0);
+            const length = stepSeconds * (voice.role === 'arp' ? 0.9 : 1.8);
+            this.playNote(ctx, gain, voice.wave, this.scaleNote(root, degree, voice.octave), step * stepSeconds, length, 0.6);
+        }
+    }
+
+    private renderBass(ctx: OfflineAudioContext, out: AudioNode, stepSeconds: number, density: number, root: number, barIndex: number) {
+        const gain = ctx.createGain();
+        gain.gain.value = 0.22;
+        gain.connect(out);
+        const degree = [0, 0, 3, 4][barIndex % 4]; // I–I–IV–V
+        const steps = density > 0.6 ? [0, 4, 8, 12] : density > 0.3 ? [0, 8, 10] : [0];
+        steps.forEach(step => {
+            this.playNote(ctx, gain, 'sawtooth', this.scaleNote(root, degree, 2), step * stepSeconds, stepSeconds * 3, 0.8);
+        });
+    }
+
+    private renderDrums(ctx: OfflineAudioContext, out: AudioNode, stepSeconds: number, density: number, random: RandomSource) {
+        const noise = ctx.createBuffer(1, Math.ceil(SAMPLE_RATE * 0.2), SAMPLE_RATE);
+        const data = noise.getChannelData(0);
+        for (let i = 0; i < data.length; i++) data[i] = random() * 2 - 1;
+
+        for (let step = 0; step < STEPS_PER_BAR; step++) {
+            const time = step * stepSeconds;
+            if (step % 4 === 0) {
+                // Kick: a fast downward pitch sweep.
+                const osc = ctx.createOscillator();
+                const env = ctx.createGain();
+                osc.frequency.setValueAtTime(150, time);
+                osc.frequency.exponentialRampToValueAtTime(40, time + 0.12);
+                env.gain.setValueAtTime(0.7, time);
+                env.gain.exponentialRampToValueAtTime(0.001, time + 0.25);
+                osc.connect(env).connect(out);
+                osc.start(time);
+                osc.stop(time + 0.3);
+            }
+            const isSnare = step === 4 || step === 12;
+            const isHat = step % 2 === 0 ? random() < 0.3 + density * 0.7 : random() < density * 0.5;
+            if (isSnare || isHat) {
+                const src = ctx.createBufferSource();
+                src.buffer = noise;
+                const filter = ctx.createBiquadFilter();
+                filter.type = isSnare ? 'bandpass' : 'highpass';
+                filter.frequency.value = isSnare ? 1800 : 7000;
+                const env = ctx.createGain();
+                const decay = isSnare ? 0.18 : 0.05;
+                env.gain.setValueAtTime(isSnare ? 0.4 : 0.12, time);
+                env.gain.exponentialRampToValueAtTime(0.001, time + decay);
+                src.connect(filter).connect(env).connect(out);
+                src.start(time);
+                src.stop(time + decay + 0.02);
+            }
+        }
+    }
+
+    private scaleNote(root: number, degree: number, octave: number): number {
+        const octaveShift = Math.floor(degree / MAJOR_SCALE.length);
+        const step = MAJOR_SCALE[((degree % MAJOR_SCALE.length) + MAJOR_SCALE.length) % MAJOR_SCALE.length];
+        return 12 * (octave + 1 + octaveShift) + root + step;
+    }
+
+    private playNote(ctx: OfflineAudioContext, out: AudioNode, wave: OscillatorType, note: number,
+        start: number, length: number, level: number) {
+        const osc = ctx.createOscillator();
+        osc.type = wave;
+        osc.frequency.value = midiToFrequency(note);
+        const env = ctx.createGain();
+        env.gain.setValueAtTime(0, start);
+        env.gain.linearRampToValueAtTime(level, start + 0.01);
+        env.gain.exponentialRampToValueAtTime(0.001, start + length);
+        osc.connect(env).connect(out);
+        osc.start(start);
+        osc.stop(start + length + 0.05);
+    }
+}
+
+/** Offline stand-in for Lyria: a Web Audio synth that needs no network or API key. */
+export class LocalSynthProvider implements MusicSessionProvider {
+    readonly id = 'local';
+    readonly label = 'Local synth (offline)';
+
+    async connect(callbacks: LiveMusicCallbacks): Promise<MusicSession> {
+        const session = new LocalSynthSession(callbacks);
+        setTimeout(() => session.announceSetup(), 0);
+        return session;
+    }
+}
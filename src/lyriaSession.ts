@@ -0,0 +1,30 @@
+import { GoogleGenAI, type LiveMusicCallbacks } from '@google/genai';
+import { MusicSession, MusicSessionProvider } from './musicSession';
+
+// Corrected API Key usage as per guidelines
+export const getApiKey = () => {
+    if (typeof process !== 'undefined' && process.env && process.env.API_KEY) return process.env.API_KEY;
+    if (typeof process !== 'undefined' && process.env && process.env.VITE_GEMINI_API_KEY) return process.env.VITE_GEMINI_API_KEY;
+    if (import.meta.env && import.meta.env.VITE_GEMINI_API_KEY) return import.meta.env.VITE_GEMINI_API_KEY;
+    return '';
+};
+
+const model = 'lyria-realtime-exp';
+
+/** Real-time music from the Lyria model through the Gemini Live Music API. */
+export class LyriaSessionProvider implements MusicSessionProvider {
+    readonly id = 'lyria';
+    readonly label = 'Lyria (online)';
+    private ai: GoogleGenAI | null = null;
+
+    async connect(callbacks: LiveMusicCallbacks): Promise<MusicSession> {
+        // Created lazily so the offline backend works without an API key.
+        if (!this.ai) {
+            this.ai = new GoogleGenAI({
+                apiKey: getApiKey(),
+                apiVersion: 'v1alpha',
+            });
+        }
+        return this.ai.live.music.connect({ model, callbacks });
+    }
+}
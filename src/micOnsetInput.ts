@@ -0,0 +1,70 @@
+import { OnsetDetector } from './tempoDetection';
+
+const FRAME_SIZE = 1024;
+const POLL_MS = 20; // Slightly under one frame at 48 kHz, so no transient is skipped
+
+/**
+ * Listens to the microphone and reports claps or taps. The music keeps
+ * playing meanwhile, so echo cancellation stays on: without it the mic hears
+ * the generated drums and reports the current tempo back as "detected".
+ */
+export class MicOnsetInput {
+    private context: AudioContext | null = null;
+    private stream: MediaStream | null = null;
+    private pollId: number | undefined;
+    private request: Promise<MediaStream> | null = null; // Waiting for microphone permission
+    private readonly detector = new OnsetDetector();
+
+    constructor(private readonly onOnset: (timeMs: number) => void) { }
+
+    get active(): boolean {
+        return this.stream !== null;
+    }
+
+    /** Asks for the microphone and starts listening. Rejects if access is denied. */
+    async start() {
+        if (this.active || this.request) return;
+        const request = navigator.mediaDevices.getUserMedia({
+            // Speech processing smooths away the transients we look for; echo cancellation only removes our own output.
+            audio: { echoCancellation: true, noiseSuppression: false, autoGainControl: false },
+        });
+        this.request = request;
+        let stream: MediaStream;
+        try {
+            stream = await request;
+        } catch (e) {
+            if (this.request === request) this.request = null;
+            throw e;
+        }
+        if (this.request !== request) {
+            // Stopped while waiting for permission.
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
+        this.request = null;
+        this.stream = stream;
+        this.context = new AudioContext();
+        const source = this.context.createMediaStreamSource(stream);
+        const analyser = this.context.createAnalyser();
+        analyser.fftSize = FRAME_SIZE;
+        source.connect(analyser);
+
+        const frame = new Float32Array(FRAME_SIZE);
+        this.detector.reset();
+        this.pollId = window.setInterval(() => {
+            analyser.getFloatTimeDomainData(frame);
+            const now = performance.now();
+            if (this.detector.process(frame, now)) this.onOnset(now);
+        }, POLL_MS);
+    }
+
+    stop() {
+        this.request = null;
+        window.clearInterval(this.pollId);
+        this.pollId = undefined;
+        this.stream?.getTracks().forEach(track => track.stop());
+        this.stream = null;
+        this.context?.close().catch(e => console.warn('Could not close microphone audio context:', e));
+        this.context = null;
+    }
+}
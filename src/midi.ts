@@ -0,0 +1,190 @@
+import { AUTOMATABLE_FIELDS, AutomatableField } from './automation';
+
+export type MidiAction = 'play-pause' | 'skip' | 'reset';
+
+export const MIDI_ACTION_LABELS: Record<MidiAction, string> = {
+    'play-pause': 'Play / Pause',
+    skip: 'Skip word',
+    reset: 'Reset',
+};
+
+/**
+ * What a MIDI control drives. Components are bound by their position in the
+ * mix rather than their id, since ids restart with every game: fader 1 keeps
+ * controlling the first component.
+ */
+export type MidiTarget = `component:${number}` | `config:${AutomatableField}` | `action:${MidiAction}`;
+
+export type MidiMessage =
+    | { type: 'cc', channel: number, controller: number, value: number }
+    | { type: 'note-on', channel: number, note: number, velocity: number };
+
+export type MidiStatus = 'unsupported' | 'off' | 'requesting' | 'ready' | 'denied';
+
+/** Bound MIDI sources, keyed by `midiSourceKey`. Each source and each target is bound at most once. */
+export type MidiBindings = ReadonlyMap<string, MidiTarget>;
+
+export const VIRTUAL_INPUT_NAME = 'Virtual controller';
+
+/** Decodes a control change or note-on. Everything else, including note-on with velocity 0 (a note-off), is ignored. */
+export function parseMidiMessage(data: ArrayLike<number>): MidiMessage | null {
+    if (data.length < 3) return null;
+    const kind = data[0] & 0xf0;
+    const channel = (data[0] & 0x0f) + 1;
+    if (kind === 0xb0) return { type: 'cc', channel, controller: data[1], value: data[2] };
+    if (kind === 0x90 && data[2] > 0) return { type: 'note-on', channel, note: data[1], velocity: data[2] };
+    return null;
+}
+
+export function midiSourceKey(message: MidiMessage): string {
+    return message.type === 'cc'
+        ? `cc:${message.channel}:${message.controller}`
+        : `note:${message.channel}:${message.note}`;
+}
+
+/** "CC 7 · ch 1" or "Note 60 · ch 1". */
+export function describeMidiSource(key: string): string {
+    const [kind, channel, number] = key.split(':');
+    return `${kind === 'cc' ? 'CC' : 'Note'} ${number} · ch ${channel}`;
+}
+
+/** Knobs and faders drive sliders; buttons (note-on) trigger actions. */
+export function acceptsMessage(target: MidiTarget, message: MidiMessage): boolean {
+    return target.startsWith('action:') ? message.type === 'note-on' : message.type === 'cc';
+}
+
+/** Number of decimals in `step`, e.g. 2 for 0.05. */
+function stepDecimals(step: number): number {
+    return (String(step).split('.')[1] ?? '').length;
+}
+
+/** Maps a 0-127 controller value onto a config field's range, snapped to its step. */
+export function scaleToField(field: AutomatableField, value: number): number {
+    const { min, max, step } = AUTOMATABLE_FIELDS[field];
+    const scaled = min + (max - min) * (value / 127);
+    // Rounded again to the step's decimals, since 24 * 0.1 is 2.4000000000000004.
+    return Number((Math.round(scaled / step) * step).toFixed(stepDecimals(step)));
+}
+
+/** Returns a copy of `bindings` with `source` bound to `target`, replacing any earlier binding of either. */
+export function bindMidi(bindings: MidiBindings, source: string, target: MidiTarget): Map<string, MidiTarget> {
+    const result = new Map([...bindings].filter(([key, bound]) => key !== source && bound !== target));
+    result.set(source, target);
+    return result;
+}
+
+/** Source key bound to `target`, if any. */
+export function findMidiSource(bindings: MidiBindings, target: MidiTarget): string | undefined {
+    for (const [source, bound] of bindings) {
+        if (bound === target) return source;
+    }
+    return undefined;
+}
+
+const MIDI_BINDINGS_KEY = 'word-music-game.midi';
+
+/** Whether `value` names something that can still be bound; stale or hand-edited targets are not. */
+function isMidiTarget(value: unknown): value is MidiTarget {
+    if (typeof value !== 'string') return false;
+    const [kind, name, ...rest] = value.split(':');
+    if (rest.length > 0 || name === undefined) return false;
+    switch (kind) {
+        case 'component': return /^\d+$/.test(name);
+        case 'config': return Object.hasOwn(AUTOMATABLE_FIELDS, name);
+        case 'action': return Object.hasOwn(MIDI_ACTION_LABELS, name);
+        default: return false;
+    }
+}
+
+function isMidiSourceKey(value: unknown): value is string {
+    return typeof value === 'string' && /^(cc|note):([1-9]|1[0-6]):(\d|[1-9]\d|1[01]\d|12[0-7])$/.test(value);
+}
+
+export function loadMidiBindings(): Map<string, MidiTarget> {
+    try {
+        const raw = localStorage.getItem(MIDI_BINDINGS_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        if (!Array.isArray(parsed)) return new Map();
+        return new Map(parsed.filter((entry): entry is [string, MidiTarget] =>
+            Array.isArray(entry) && isMidiSourceKey(entry[0]) && isMidiTarget(entry[1])));
+    } catch (e) {
+        console.warn('Could not read MIDI mappings:', e);
+        return new Map();
+    }
+}
+
+export function saveMidiBindings(bindings: MidiBindings) {
+    try {
+        localStorage.setItem(MIDI_BINDINGS_KEY, JSON.stringify([...bindings]));
+    } catch (e) {
+        console.warn('Could not save MIDI mappings:', e);
+    }
+}
+
+/**
+ * Listens to every connected MIDI input, including ones plugged in later, and
+ * to a virtual input fed through `receive`, so mappings can be tried out
+ * without hardware.
+ */
+export class MidiInputManager {
+    private access: MIDIAccess | null = null;
+    private currentStatus: MidiStatus = 'requestMIDIAccess' in navigator ? 'off' : 'unsupported';
+
+    constructor(
+        private readonly onMessage: (message: MidiMessage) => void,
+        private readonly onChange: (status: MidiStatus, inputs: string[]) => void,
+    ) { }
+
+    get status(): MidiStatus {
+        return this.currentStatus;
+    }
+
+    /** Names of the inputs being listened to; the virtual input is always there. */
+    get inputs(): string[] {
+        const names = [VIRTUAL_INPUT_NAME];
+        this.access?.inputs.forEach(input => names.push(input.name || 'Unnamed input'));
+        return names;
+    }
+
+    /** Asks for MIDI access. Resolves once listening, or once access is refused. */
+    async start() {
+        if (this.access || this.currentStatus === 'unsupported') return;
+        this.setStatus('requesting');
+        try {
+            this.access = await navigator.requestMIDIAccess();
+        } catch (e) {
+            console.warn('MIDI access refused:', e);
+            this.setStatus('denied');
+            return;
+        }
+        this.access.onstatechange = () => this.listenToInputs();
+        this.listenToInputs();
+        this.setStatus('ready');
+    }
+
+    stop() {
+        if (!this.access) return;
+        this.access.onstatechange = null;
+        this.access.inputs.forEach(input => { input.onmidimessage = null; });
+        this.access = null;
+        this.setStatus('off');
+    }
+
+    /** Feeds raw MIDI bytes through the same path as a hardware input. */
+    receive(data: ArrayLike<number>) {
+        const message = parseMidiMessage(data);
+        if (message) this.onMessage(message);
+    }
+
+    private listenToInputs() {
+        this.access?.inputs.forEach(input => {
+            input.onmidimessage = (e) => { if (e.data) this.receive(e.data); };
+        });
+        this.onChange(this.currentStatus, this.inputs);
+    }
+
+    private setStatus(status: MidiStatus) {
+        this.currentStatus = status;
+        this.onChange(status, this.inputs);
+    }
+}
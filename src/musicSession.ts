@@ -0,0 +1,28 @@
+import {
+    type LiveMusicCallbacks,
+    type LiveMusicSetConfigParameters,
+    type LiveMusicSetWeightedPromptsParameters,
+} from '@google/genai';
+
+/**
+ * A live music generation session. Mirrors the shape of the SDK's
+ * `LiveMusicSession` so the Lyria session can be used as-is.
+ */
+export interface MusicSession {
+    setWeightedPrompts(params: LiveMusicSetWeightedPromptsParameters): Promise<void>;
+    setMusicGenerationConfig(params: LiveMusicSetConfigParameters): Promise<void>;
+    play(): void;
+    pause(): void;
+    stop(): void;
+    resetContext(): void;
+    close(): void;
+}
+
+/** A backend that can open music sessions. Audio arrives through `callbacks.onmessage`. */
+export interface MusicSessionProvider {
+    readonly id: MusicBackendId;
+    readonly label: string;
+    connect(callbacks: LiveMusicCallbacks): Promise<MusicSession>;
+}
+
+export type MusicBackendId = 'lyria' | 'local';
@@ -0,0 +1,63 @@
+import { decode, decodePcm16 } from './utils';
+
+export interface DecodeRequest {
+    id: number;
+    data: string; // Base64 interleaved Int16 PCM
+    numChannels: number;
+}
+
+export interface DecodeResponse {
+    id: number;
+    channels?: Float32Array[];
+    error?: string;
+}
+
+/**
+ * Decodes base64 PCM chunks in a Worker so large conversions never block the
+ * UI thread. Falls back to decoding inline if the Worker cannot be started.
+ */
+export class PcmDecoder {
+    private worker: Worker | null = null;
+    private nextId = 0;
+    private pending = new Map<number, { resolve: (channels: Float32Array[]) => void, reject: (err: Error) => void }>();
+
+    constructor(private readonly numChannels: number) {
+        try {
+            this.worker = new Worker(new URL('./pcmDecoder.worker.ts', import.meta.url), { type: 'module' });
+            this.worker.onmessage = (e: MessageEvent<DecodeResponse>) => this.handleResponse(e.data);
+            this.worker.onerror = (e: ErrorEvent) => {
+                console.error('PCM decoder worker failed, decoding on the main thread:', e.message);
+                this.worker?.terminate();
+                this.worker = null;
+                this.pending.forEach(({ reject }) => reject(new Error('Audio decoder stopped.')));
+                this.pending.clear();
+            };
+        } catch (e) {
+            console.warn('Could not start the PCM decoder worker, decoding on the main thread:', e);
+        }
+    }
+
+    /** Resolves with one Float32Array per channel. Results arrive in request order. */
+    decode(base64: string): Promise<Float32Array[]> {
+        if (!this.worker) {
+            return Promise.resolve(decodePcm16(decode(base64), this.numChannels));
+        }
+        const id = this.nextId++;
+        return new Promise((resolve, reject) => {
+            this.pending.set(id, { resolve, reject });
+            const request: DecodeRequest = { id, data: base64, numChannels: this.numChannels };
+            this.worker!.postMessage(request);
+        });
+    }
+
+    private handleResponse(response: DecodeResponse) {
+        const request = this.pending.get(response.id);
+        if (!request) return;
+        this.pending.delete(response.id);
+        if (response.channels) {
+            request.resolve(response.channels);
+        } else {
+            request.reject(new Error(response.error || 'Failed to decode audio chunk.'));
+        }
+    }
+}
@@ -0,0 +1,17 @@
+import type { DecodeRequest, DecodeResponse } from './pcmDecoder';
+import { decode, decodePcm16 } from './utils';
+
+/** Converts base64 Int16 chunks to planar Float32; the channel buffers are transferred back. */
+self.onmessage = (e: MessageEvent<DecodeRequest>) => {
+    const { id, data, numChannels } = e.data;
+    let response: DecodeResponse;
+    let transfer: Transferable[] = [];
+    try {
+        const channels = decodePcm16(decode(data), numChannels);
+        response = { id, channels };
+        transfer = channels.map(channel => channel.buffer);
+    } catch (err) {
+        response = { id, error: err instanceof Error ? err.message : String(err) };
+    }
+    self.postMessage(response, { transfer });
+};
@@ -0,0 +1,190 @@
+import processorUrl from './ringBufferProcessor.ts?worker&url';
+import { RING_BUFFER_PROCESSOR, RingBufferCommand, RingBufferState, RingBufferStatus } from './ringBufferProtocol';
+
+export type BufferState = RingBufferState;
+
+/** Snapshot of the playout buffer, published for the UI. */
+export interface BufferHealth {
+    readonly state: BufferState;
+    readonly bufferedSeconds: number; // Audio queued ahead of the playhead
+    readonly targetLatency: number; // Seconds of audio collected before (re)starting
+    readonly jitterMs: number; // Smoothed deviation of chunk arrival times
+    readonly underruns: number;
+}
+
+export interface PlayoutBufferOptions {
+    readonly minLatency: number;
+    readonly maxLatency: number;
+    readonly initialLatency: number;
+}
+
+const DEFAULT_OPTIONS: PlayoutBufferOptions = {
+    minLatency: 0.25,
+    maxLatency: 4,
+    initialLatency: 0.5,
+};
+
+const JITTER_GAIN = 1 / 16; // Smoothing factor from RFC 3550's interarrival jitter
+const JITTER_MULTIPLIER = 4; // Target latency covers this many jitter deviations
+const UNDERRUN_GROWTH = 1.5;
+const SHRINK_AFTER_MS = 20000; // Healthy time before the target latency is lowered
+const SHRINK_FACTOR = 0.9;
+
+type HealthListener = (health: BufferHealth) => void;
+
+/**
+ * Adaptive jitter buffer for streamed audio chunks. Samples live in a ring
+ * buffer inside an AudioWorklet, so playback never waits on the main thread;
+ * this class measures arrival jitter and tells the worklet how much audio to
+ * collect before (re)starting. Each under-run grows that target, and a long
+ * healthy stretch slowly shrinks it again.
+ */
+export class PlayoutBuffer {
+    private readonly options: PlayoutBufferOptions;
+    private node: AudioWorkletNode | null = null;
+    private destination: AudioNode | null = null;
+    private pending: Float32Array[][] = []; // Chunks pushed before the worklet loaded
+    private status: RingBufferStatus = { type: 'status', state: 'idle', bufferedFrames: 0, underruns: 0, droppedFrames: 0 };
+    private targetLatency: number;
+    private jitter = 0; // seconds
+    private lastArrival = 0;
+    private lastDuration = 0;
+    private healthySince = 0;
+    private listeners = new Set<HealthListener>();
+    private lastPublished = '';
+
+    /** Resolves once the worklet is loaded; rejects if the browser cannot run it. */
+    readonly ready: Promise<void>;
+
+    constructor(
+        private readonly context: AudioContext,
+        private readonly getDestination: () => AudioNode,
+        private readonly numChannels: number = 2,
+        options: Partial<PlayoutBufferOptions> = {},
+    ) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+        this.targetLatency = this.options.initialLatency;
+        this.ready = this.loadWorklet();
+    }
+
+    get health(): BufferHealth {
+        return {
+            state: this.status.state,
+            bufferedSeconds: this.status.bufferedFrames / this.context.sampleRate,
+            targetLatency: this.targetLatency,
+            jitterMs: this.jitter * 1000,
+            underruns: this.status.underruns,
+        };
+    }
+
+    /** Calls `listener` now and whenever the health changes. Returns an unsubscribe function. */
+    subscribe(listener: HealthListener): () => void {
+        this.listeners.add(listener);
+        listener(this.health);
+        return () => this.listeners.delete(listener);
+    }
+
+    /** Queues one chunk of planar channel data. The arrays are transferred to the worklet. */
+    push(channels: Float32Array[]) {
+        if (channels.length === 0 || channels[0].length === 0) return;
+        this.measureArrival(channels[0].length / this.context.sampleRate);
+        if (!this.node) {
+            this.pending.push(channels);
+            return;
+        }
+        this.connect();
+        this.send({ type: 'chunk', channels }, channels.map(channel => channel.buffer));
+    }
+
+    /** Drops everything and returns to idle, keeping the learned latency. */
+    reset() {
+        this.pending = [];
+        this.lastArrival = 0;
+        this.send({ type: 'reset' });
+        this.status = { ...this.status, state: 'idle', bufferedFrames: 0 };
+        this.publish();
+    }
+
+    private async loadWorklet() {
+        await this.context.audioWorklet.addModule(processorUrl);
+        this.node = new AudioWorkletNode(this.context, RING_BUFFER_PROCESSOR, {
+            numberOfInputs: 0,
+            outputChannelCount: [this.numChannels],
+        });
+        this.node.port.onmessage = (e: MessageEvent<RingBufferStatus>) => this.handleStatus(e.data);
+        this.sendTarget();
+        const pending = this.pending;
+        this.pending = [];
+        pending.forEach(channels => {
+            this.connect();
+            this.send({ type: 'chunk', channels }, channels.map(channel => channel.buffer));
+        });
+    }
+
+    /** Follows the destination node, which the app replaces on pause and stop. */
+    private connect() {
+        const destination = this.getDestination();
+        if (!this.node || destination === this.destination) return;
+        this.node.disconnect();
+        this.node.connect(destination);
+        this.destination = destination;
+    }
+
+    private send(command: RingBufferCommand, transfer: Transferable[] = []) {
+        this.node?.port.postMessage(command, transfer);
+    }
+
+    private sendTarget() {
+        this.send({ type: 'target', frames: Math.round(this.targetLatency * this.context.sampleRate) });
+    }
+
+    private setTargetLatency(seconds: number) {
+        const clamped = Math.min(Math.max(seconds, this.options.minLatency), this.options.maxLatency);
+        if (Math.abs(clamped - this.targetLatency) < 0.001) return;
+        this.targetLatency = clamped;
+        this.sendTarget();
+    }
+
+    private measureArrival(duration: number) {
+        const now = performance.now() / 1000;
+        if (this.lastArrival > 0) {
+            // How late this chunk arrived compared with the previous chunk's duration. Early
+            // arrivals are ignored: the server often bursts ahead of real time.
+            const deviation = Math.max(0, now - this.lastArrival - this.lastDuration);
+            this.jitter += (deviation - this.jitter) * JITTER_GAIN;
+            const wanted = this.options.minLatency + this.jitter * JITTER_MULTIPLIER;
+            if (wanted > this.targetLatency) this.setTargetLatency(wanted);
+        }
+        this.lastArrival = now;
+        this.lastDuration = duration;
+    }
+
+    private handleStatus(status: RingBufferStatus) {
+        const previous = this.status;
+        this.status = status;
+        if (status.droppedFrames > previous.droppedFrames) {
+            console.warn(`Playout buffer full, dropped ${status.droppedFrames - previous.droppedFrames} frames.`);
+        }
+        if (status.underruns > previous.underruns) {
+            this.setTargetLatency(this.targetLatency * UNDERRUN_GROWTH);
+        }
+        if (status.state === 'playing' && previous.state !== 'playing') {
+            this.healthySince = performance.now();
+        } else if (status.state === 'playing' && performance.now() - this.healthySince > SHRINK_AFTER_MS) {
+            // A long stretch without trouble: trade some safety for lower latency.
+            const floor = this.options.minLatency + this.jitter * JITTER_MULTIPLIER;
+            this.setTargetLatency(Math.max(floor, this.targetLatency * SHRINK_FACTOR));
+            this.healthySince = performance.now();
+        }
+        this.publish();
+    }
+
+    private publish() {
+        const health = this.health;
+        // Round so listeners are not woken for sub-millisecond changes.
+        const key = `${health.state}|${health.bufferedSeconds.toFixed(1)}|${health.targetLatency.toFixed(2)}|${health.jitterMs.toFixed(0)}|${health.underruns}`;
+        if (key === this.lastPublished) return;
+        this.lastPublished = key;
+        this.listeners.forEach(listener => listener(health));
+    }
+}
@@ -0,0 +1,126 @@
+import { type LiveMusicGenerationConfig, Scale } from '@google/genai';
+import { DEFAULT_EFFECTS, EffectsSettings, normalizeEffects } from './effectsRack';
+
+/** A named snapshot of the generation settings and, optionally, the master effects. */
+export interface SettingsPreset {
+    name: string;
+    config: LiveMusicGenerationConfig;
+    effects?: EffectsSettings;
+}
+
+export const BUILT_IN_PRESETS: readonly SettingsPreset[] = [
+    {
+        name: 'Chill',
+        config: { temperature: 1.0, guidance: 4.0, topK: 40, bpm: 84, density: 0.3, brightness: 0.35 },
+        effects: {
+            ...DEFAULT_EFFECTS,
+            filter: { enabled: true, mode: 'lowpass', frequency: 6000, resonance: 0.7 },
+            reverb: { enabled: true, mix: 0.35, decay: 3.5 },
+        },
+    },
+    {
+        name: 'Club',
+        config: { temperature: 1.1, guidance: 4.5, topK: 40, bpm: 126, density: 0.75, brightness: 0.7 },
+        effects: {
+            ...DEFAULT_EFFECTS,
+            eq: { enabled: true, low: 4, mid: -1, high: 2 },
+            limiter: { enabled: true, threshold: -3 },
+        },
+    },
+    {
+        name: 'Sparse',
+        config: { temperature: 0.9, guidance: 3.5, topK: 30, bpm: 96, density: 0.1, brightness: 0.45 },
+        effects: {
+            ...DEFAULT_EFFECTS,
+            delay: { enabled: true, time: 0.375, feedback: 0.4, mix: 0.3 },
+            reverb: { enabled: true, mix: 0.25, decay: 2.5 },
+        },
+    },
+];
+
+const PRESETS_KEY = 'word-music-game.presets';
+const EXPORT_VERSION = 1;
+
+// No seed: it belongs to the game (the daily challenge sets it), not to a preset's sound.
+const NUMBER_FIELDS = ['temperature', 'topK', 'guidance', 'bpm', 'density', 'brightness'] as const;
+const BOOLEAN_FIELDS = ['muteBass', 'muteDrums', 'onlyBassAndDrums'] as const;
+
+export function isBuiltInPreset(name: string): boolean {
+    return BUILT_IN_PRESETS.some(preset => preset.name.toLowerCase() === name.trim().toLowerCase());
+}
+
+/** Keeps only the generation settings a preset may carry, dropping anything unknown or mistyped. */
+function parseConfig(raw: unknown): LiveMusicGenerationConfig {
+    if (typeof raw !== 'object' || raw === null) {
+        throw new Error('Preset settings must be an object.');
+    }
+    const source = raw as Record<string, unknown>;
+    const config: Record<string, unknown> = {};
+    for (const key of NUMBER_FIELDS) {
+        if (typeof source[key] === 'number' && Number.isFinite(source[key])) config[key] = source[key];
+    }
+    for (const key of BOOLEAN_FIELDS) {
+        if (typeof source[key] === 'boolean') config[key] = source[key];
+    }
+    if (typeof source.scale === 'string' && (Object.values(Scale) as string[]).includes(source.scale)) {
+        config.scale = source.scale;
+    }
+    return config as LiveMusicGenerationConfig;
+}
+
+function parsePreset(raw: unknown): SettingsPreset {
+    if (typeof raw !== 'object' || raw === null) {
+        throw new Error('Each preset must be an object.');
+    }
+    const preset = raw as Record<string, unknown>;
+    if (typeof preset.name !== 'string' || preset.name.trim() === '') {
+        throw new Error('Each preset needs a "name".');
+    }
+    return {
+        name: preset.name.trim(),
+        config: parseConfig(preset.config),
+        effects: preset.effects ? normalizeEffects(preset.effects as Partial<EffectsSettings>) : undefined,
+    };
+}
+
+/** Validates an exported presets file (or a bare array of presets). Throws on malformed input. */
+export function parsePresets(raw: unknown): SettingsPreset[] {
+    const list = Array.isArray(raw) ? raw : (raw as Record<string, unknown> | null)?.presets;
+    if (!Array.isArray(list)) {
+        throw new Error('Presets file must contain a "presets" list.');
+    }
+    return list.map(parsePreset);
+}
+
+export function exportPresets(presets: readonly SettingsPreset[]): string {
+    return JSON.stringify({ version: EXPORT_VERSION, presets }, null, 2);
+}
+
+/** The player's own presets; built-ins are not stored. */
+export function loadPresets(): SettingsPreset[] {
+    try {
+        const raw = localStorage.getItem(PRESETS_KEY);
+        return raw ? parsePresets(JSON.parse(raw)) : [];
+    } catch (e) {
+        console.warn('Could not read presets:', e);
+        return [];
+    }
+}
+
+export function savePresets(presets: readonly SettingsPreset[]) {
+    try {
+        localStorage.setItem(PRESETS_KEY, exportPresets(presets));
+    } catch (e) {
+        console.warn('Could not save presets:', e);
+    }
+}
+
+/** Adds or replaces presets by name, case-insensitively, keeping the existing order. */
+export function mergePresets(existing: readonly SettingsPreset[], incoming: readonly SettingsPreset[]): SettingsPreset[] {
+    const result = [...existing];
+    for (const preset of incoming) {
+        const index = result.findIndex(p => p.name.toLowerCase() === preset.name.toLowerCase());
+        if (index >= 0) result[index] = preset; else result.push(preset);
+    }
+    return result;
+}
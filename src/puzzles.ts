@@ -0,0 +1,96 @@
+import { RandomSource } from './random';
+import { Puzzle, PuzzleType, WordEntry } from './types';
+import { shuffle } from './utils';
+
+export const PUZZLE_TYPES: readonly PuzzleType[] = ['anagram', 'masked', 'clue'];
+
+export const PUZZLE_LABELS: Record<PuzzleType, string> = {
+    anagram: 'Unscramble',
+    masked: 'Fill the gaps',
+    clue: 'Clue',
+};
+
+const HIDDEN_LETTER = '_';
+
+/** Shuffles the word, retrying a few times so the anagram rarely equals the answer. */
+function scramble(word: string, random: RandomSource): string {
+    let scrambled = shuffle(word.split(''), random).join('');
+    for (let attempt = 0; attempt < 10 && scrambled === word; attempt++) {
+        scrambled = shuffle(word.split(''), random).join('');
+    }
+    return scrambled;
+}
+
+function hiddenIndices(puzzle: Puzzle): number[] {
+    const hidden: number[] = [];
+    for (let i = 0; i < puzzle.answer.length; i++) {
+        if (!puzzle.revealed.includes(i)) hidden.push(i);
+    }
+    return hidden;
+}
+
+export function pickPuzzleType(random: RandomSource = Math.random): PuzzleType {
+    return PUZZLE_TYPES[Math.floor(random() * PUZZLE_TYPES.length)];
+}
+
+export function createPuzzle(entry: WordEntry, random: RandomSource = Math.random, type: PuzzleType = pickPuzzleType(random)): Puzzle {
+    const answer = entry.answer;
+    let puzzle: Puzzle = {
+        type,
+        answer,
+        scrambled: scramble(answer, random),
+        clue: entry.clue ?? `A ${answer.length}-letter word (${entry.category})`,
+        revealed: [],
+    };
+    if (type === 'masked') {
+        // Start hangman rounds with roughly a third of the letters showing.
+        const initialReveals = Math.max(1, Math.floor(answer.length / 3));
+        for (let i = 0; i < initialReveals; i++) {
+            puzzle = revealLetter(puzzle, random);
+        }
+    }
+    return puzzle;
+}
+
+/** Whether another letter can be revealed without giving away the whole word. */
+export function canRevealLetter(puzzle: Puzzle): boolean {
+    return hiddenIndices(puzzle).length > 1;
+}
+
+/** Returns a copy of the puzzle with one more randomly chosen letter revealed. */
+export function revealLetter(puzzle: Puzzle, random: RandomSource = Math.random): Puzzle {
+    if (!canRevealLetter(puzzle)) return puzzle;
+    const hidden = hiddenIndices(puzzle);
+    const index = hidden[Math.floor(random() * hidden.length)];
+    return { ...puzzle, revealed: [...puzzle.revealed, index].sort((a, b) => a - b) };
+}
+
+/** The answer with unrevealed letters replaced by blanks, e.g. "B _ _ E S". */
+export function getMaskedPattern(puzzle: Puzzle): string {
+    return puzzle.answer
+        .split('')
+        .map((letter, i) => (puzzle.revealed.includes(i) ? letter : HIDDEN_LETTER))
+        .join(' ');
+}
+
+/** The main text shown in the word display for this puzzle. */
+export function getPuzzlePrompt(puzzle: Puzzle): string {
+    switch (puzzle.type) {
+        case 'anagram':
+            return puzzle.scrambled.split('').join(' ');
+        case 'masked':
+            return getMaskedPattern(puzzle);
+        case 'clue':
+            return puzzle.clue;
+    }
+}
+
+/**
+ * The secondary hint line under the prompt. Clue rounds always show the word
+ * length; anagram rounds only once a letter has been revealed.
+ */
+export function getPuzzleHint(puzzle: Puzzle): string {
+    if (puzzle.type === 'masked') return '';
+    if (puzzle.type === 'anagram' && puzzle.revealed.length === 0) return '';
+    return getMaskedPattern(puzzle);
+}
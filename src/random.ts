@@ -0,0 +1,24 @@
+/** A source of uniformly distributed numbers in [0, 1), like `Math.random`. */
+export type RandomSource = () => number;
+
+/** Small, fast seeded PRNG (mulberry32). The same seed always yields the same sequence. */
+export function createSeededRandom(seed: number): RandomSource {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** FNV-1a hash of a string, as an unsigned 32-bit integer. */
+export function hashString(value: string): number {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
@@ -0,0 +1,85 @@
+const DEFAULT_MAX_SECONDS = 5 * 60; // About 115 MB of stereo float at 48 kHz
+
+/**
+ * Collects decoded audio chunks while recording so the mix can be exported
+ * later. Only the last `maxSeconds` are kept. The audio is taken as decoded,
+ * before the effects rack, so exports are dry.
+ */
+export class MixRecorder {
+    private chunks: Float32Array[][] = []; // Per chunk, one array per channel
+    private frames = 0;
+    private active = false;
+
+    constructor(
+        readonly sampleRate: number,
+        readonly numChannels: number,
+        readonly maxSeconds: number = DEFAULT_MAX_SECONDS,
+    ) { }
+
+    get recording(): boolean {
+        return this.active;
+    }
+
+    /** Recorded length in seconds. */
+    get duration(): number {
+        return this.frames / this.sampleRate;
+    }
+
+    get hasAudio(): boolean {
+        return this.frames > 0;
+    }
+
+    /** Starts a fresh take, discarding anything recorded before. */
+    start() {
+        this.clear();
+        this.active = true;
+    }
+
+    stop() {
+        this.active = false;
+    }
+
+    clear() {
+        this.chunks = [];
+        this.frames = 0;
+    }
+
+    /** Appends a chunk of planar channel data if recording. It is copied since playback transfers it away. */
+    append(channels: Float32Array[]) {
+        if (!this.active || channels.length === 0) return;
+        const copies: Float32Array[] = [];
+        for (let c = 0; c < this.numChannels; c++) {
+            copies.push(new Float32Array(channels[Math.min(c, channels.length - 1)]));
+        }
+        this.chunks.push(copies);
+        this.frames += copies[0].length;
+        // Drop the oldest chunks once the rest still covers the limit.
+        const maxFrames = this.maxSeconds * this.sampleRate;
+        while (this.chunks.length > 1 && this.frames - this.chunks[0][0].length >= maxFrames) {
+            this.frames -= this.chunks.shift()![0].length;
+        }
+    }
+
+    /** Planar channel data between `startSeconds` and `endSeconds`. */
+    getChannels(startSeconds: number = 0, endSeconds: number = this.duration): Float32Array[] {
+        const startFrame = Math.max(0, Math.floor(startSeconds * this.sampleRate));
+        const endFrame = Math.min(this.frames, Math.ceil(endSeconds * this.sampleRate));
+        const length = Math.max(0, endFrame - startFrame);
+        const output = Array.from({ length: this.numChannels }, () => new Float32Array(length));
+
+        let chunkStart = 0;
+        for (const chunk of this.chunks) {
+            const chunkLength = chunk[0].length;
+            const from = Math.max(startFrame, chunkStart);
+            const to = Math.min(endFrame, chunkStart + chunkLength);
+            if (from < to) {
+                for (let c = 0; c < this.numChannels; c++) {
+                    output[c].set(chunk[c].subarray(from - chunkStart, to - chunkStart), from - startFrame);
+                }
+            }
+            chunkStart += chunkLength;
+            if (chunkStart >= endFrame) break;
+        }
+        return output;
+    }
+}
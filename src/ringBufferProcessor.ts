@@ -0,0 +1,134 @@
+import { RING_BUFFER_PROCESSOR, RingBufferCommand, RingBufferState, RingBufferStatus } from './ringBufferProtocol';
+
+// Runs in the AudioWorkletGlobalScope, whose globals are not part of the DOM typings.
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(name: string, processorCtor: new (options?: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+
+const CAPACITY_SECONDS = 10;
+const FADE_SECONDS = 0.03;
+const STATUS_INTERVAL_SECONDS = 0.05;
+
+/**
+ * Plays streamed chunks from a ring buffer. Playback starts once `target`
+ * frames are queued; when the buffer runs dry the remaining audio is faded out
+ * and playback waits for the target again, then fades back in.
+ */
+class RingBufferProcessor extends AudioWorkletProcessor {
+    private readonly ring: Float32Array[];
+    private readonly capacity: number;
+    private readonly fadeFrames = Math.round(FADE_SECONDS * sampleRate);
+    private readonly statusInterval = Math.round(STATUS_INTERVAL_SECONDS * sampleRate);
+    private readIndex = 0;
+    private available = 0;
+    private state: RingBufferState = 'idle';
+    private targetFrames = Math.round(0.5 * sampleRate);
+    private gain = 0;
+    private fadeOutLeft = 0;
+    private fadeOutTotal = 0;
+    private underruns = 0;
+    private droppedFrames = 0;
+    private framesSinceStatus = 0;
+
+    constructor(options?: AudioWorkletNodeOptions) {
+        super(options);
+        const channelCount = options?.outputChannelCount?.[0] ?? 2;
+        this.capacity = Math.round(CAPACITY_SECONDS * sampleRate);
+        this.ring = Array.from({ length: channelCount }, () => new Float32Array(this.capacity));
+        this.port.onmessage = (e: MessageEvent<RingBufferCommand>) => this.handleCommand(e.data);
+    }
+
+    private handleCommand(command: RingBufferCommand) {
+        switch (command.type) {
+            case 'chunk':
+                this.write(command.channels);
+                if (this.state === 'idle') this.setState('buffering');
+                break;
+            case 'target':
+                this.targetFrames = Math.max(1, Math.min(command.frames, this.capacity));
+                break;
+            case 'reset':
+                this.readIndex = 0;
+                this.available = 0;
+                this.gain = 0;
+                this.fadeOutLeft = 0;
+                this.setState('idle');
+                break;
+        }
+    }
+
+    private write(channels: Float32Array[]) {
+        const length = channels[0]?.length ?? 0;
+        const room = this.capacity - this.available;
+        const frames = Math.min(length, room);
+        if (frames < length) this.droppedFrames += length - frames;
+        const writeIndex = (this.readIndex + this.available) % this.capacity;
+        const firstPart = Math.min(frames, this.capacity - writeIndex);
+        for (let c = 0; c < this.ring.length; c++) {
+            const source = channels[Math.min(c, channels.length - 1)];
+            this.ring[c].set(source.subarray(0, firstPart), writeIndex);
+            if (frames > firstPart) this.ring[c].set(source.subarray(firstPart, frames), 0);
+        }
+        this.available += frames;
+    }
+
+    process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+        const output = outputs[0];
+        const length = output[0].length;
+
+        if (this.state === 'playing' && this.available < this.fadeFrames + length) {
+            // About to run dry: fade out what is left, then rebuffer.
+            this.underruns++;
+            this.fadeOutTotal = this.fadeOutLeft = this.available;
+            this.setState('buffering');
+        } else if (this.state === 'buffering' && this.fadeOutLeft === 0 && this.available >= this.targetFrames) {
+            this.gain = 0;
+            this.setState('playing');
+        }
+
+        for (let i = 0; i < length; i++) {
+            let gain: number;
+            if (this.state === 'playing') {
+                gain = this.gain = Math.min(1, this.gain + 1 / this.fadeFrames);
+            } else if (this.fadeOutLeft > 0) {
+                gain = this.gain * this.fadeOutLeft / this.fadeOutTotal;
+                if (--this.fadeOutLeft === 0) this.gain = 0;
+            } else {
+                for (let c = 0; c < output.length; c++) output[c][i] = 0;
+                continue;
+            }
+            for (let c = 0; c < output.length; c++) {
+                output[c][i] = this.ring[Math.min(c, this.ring.length - 1)][this.readIndex] * gain;
+            }
+            this.readIndex = (this.readIndex + 1) % this.capacity;
+            this.available--;
+        }
+
+        this.framesSinceStatus += length;
+        if (this.framesSinceStatus >= this.statusInterval) this.postStatus();
+        return true;
+    }
+
+    private setState(state: RingBufferState) {
+        if (state === this.state) return;
+        this.state = state;
+        this.postStatus();
+    }
+
+    private postStatus() {
+        this.framesSinceStatus = 0;
+        const status: RingBufferStatus = {
+            type: 'status',
+            state: this.state,
+            bufferedFrames: this.available,
+            underruns: this.underruns,
+            droppedFrames: this.droppedFrames,
+        };
+        this.port.postMessage(status);
+    }
+}
+
+registerProcessor(RING_BUFFER_PROCESSOR, RingBufferProcessor);
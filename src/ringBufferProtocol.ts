@@ -0,0 +1,17 @@
+/** Messages exchanged between `PlayoutBuffer` and the ring buffer worklet. */
+export const RING_BUFFER_PROCESSOR = 'ring-buffer-playout';
+
+export type RingBufferState = 'idle' | 'buffering' | 'playing';
+
+export type RingBufferCommand =
+    | { type: 'chunk', channels: Float32Array[] }
+    | { type: 'target', frames: number }
+    | { type: 'reset' };
+
+export interface RingBufferStatus {
+    type: 'status';
+    state: RingBufferState;
+    bufferedFrames: number;
+    underruns: number;
+    droppedFrames: number;
+}
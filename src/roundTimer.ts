@@ -0,0 +1,84 @@
+export interface RoundTimerCallbacks {
+    /** Called on every beat boundary with the number of beats still left in the round. */
+    onBeat: (beatsLeft: number) => void;
+    /** Called once when the last beat of the round has elapsed. */
+    onExpire: () => void;
+}
+
+const TICK_MS = 25;
+
+/**
+ * Counts down a round measured in beats. Time only accumulates while the timer
+ * is resumed, so the round can be frozen whenever playback pauses.
+ */
+export class RoundTimer {
+    private totalBeats = 0;
+    private beatMs = 500;
+    private elapsedMs = 0; // Time accumulated before the current resume
+    private resumedAt: number | null = null;
+    private lastBeat = 0;
+    private intervalId: number | undefined;
+
+    constructor(private readonly callbacks: RoundTimerCallbacks) { }
+
+    get running(): boolean {
+        return this.resumedAt !== null;
+    }
+
+    get beatsLeft(): number {
+        return Math.max(0, this.totalBeats - this.lastBeat);
+    }
+
+    /** Resets the round to `totalBeats` beats, paused until `resume()` is called. */
+    start(totalBeats: number, beatMs: number) {
+        this.stop();
+        this.totalBeats = totalBeats;
+        this.beatMs = beatMs;
+        this.callbacks.onBeat(this.beatsLeft);
+    }
+
+    resume() {
+        if (this.running || this.totalBeats === 0) return;
+        this.resumedAt = performance.now();
+        this.intervalId = window.setInterval(() => this.tick(), TICK_MS);
+    }
+
+    pause() {
+        if (!this.running) return;
+        this.elapsedMs = this.currentElapsedMs();
+        this.resumedAt = null;
+        window.clearInterval(this.intervalId);
+        this.intervalId = undefined;
+    }
+
+    stop() {
+        this.pause();
+        this.elapsedMs = 0;
+        this.lastBeat = 0;
+        this.totalBeats = 0;
+    }
+
+    /** Changes the tempo mid-round while keeping the number of beats already played. */
+    setBeatDuration(beatMs: number) {
+        if (beatMs === this.beatMs) return;
+        const elapsedBeats = this.currentElapsedMs() / this.beatMs;
+        this.beatMs = beatMs;
+        this.elapsedMs = elapsedBeats * beatMs;
+        if (this.running) this.resumedAt = performance.now();
+    }
+
+    private currentElapsedMs(): number {
+        return this.elapsedMs + (this.resumedAt !== null ? performance.now() - this.resumedAt : 0);
+    }
+
+    private tick() {
+        const beat = Math.floor(this.currentElapsedMs() / this.beatMs);
+        if (beat <= this.lastBeat) return;
+        this.lastBeat = Math.min(beat, this.totalBeats);
+        this.callbacks.onBeat(this.beatsLeft);
+        if (this.lastBeat >= this.totalBeats) {
+            this.stop();
+            this.callbacks.onExpire();
+        }
+    }
+}
@@ -0,0 +1,78 @@
+import { type LiveMusicGenerationConfig } from '@google/genai';
+import { ScoreState } from './scoring';
+import {
+    DifficultyLevel,
+    GameMode,
+    GuessAttempt,
+    MusicComponentData,
+    Puzzle,
+    WordEntry,
+    WordPack,
+} from './types';
+
+/** Everything needed to rebuild a game and its mix after a reload. */
+export interface SavedGame {
+    readonly version: 1;
+    readonly savedAt: string; // ISO timestamp
+    readonly gameMode: GameMode;
+    readonly dailyKey: string;
+    readonly difficulty: DifficultyLevel;
+    readonly pack: WordPack; // Stored whole so packs loaded from a URL survive the reload
+    readonly availableWords: WordEntry[];
+    readonly currentWordIndex: number;
+    readonly currentPuzzle: Puzzle | null;
+    readonly attempts: GuessAttempt[];
+    readonly hintsLeft: number;
+    readonly scoreState: ScoreState;
+    readonly elapsedMs: number; // Play time so far, for the daily summary
+    readonly timedMode: boolean;
+    readonly musicComponents: MusicComponentData[];
+    readonly nextComponentId: number;
+    readonly filteredComponents: string[];
+    readonly generationConfig: LiveMusicGenerationConfig;
+}
+
+const SAVED_GAME_KEY = 'word-music-game.saved-game';
+
+export function saveGame(game: SavedGame) {
+    try {
+        localStorage.setItem(SAVED_GAME_KEY, JSON.stringify(game));
+    } catch (e) {
+        console.warn('Could not save game:', e);
+    }
+}
+
+/** Whether the save points at a word that exists, so resuming cannot index past the list. */
+function hasValidWordIndex(game: SavedGame): boolean {
+    const index = game.currentWordIndex;
+    return Number.isInteger(index)
+        && index >= 0
+        && index < game.availableWords.length
+        && typeof game.availableWords[index]?.answer === 'string';
+}
+
+/** Returns the saved game, or null if there is none, it is from an incompatible version or it is corrupt. */
+export function loadSavedGame(): SavedGame | null {
+    try {
+        const raw = localStorage.getItem(SAVED_GAME_KEY);
+        if (!raw) return null;
+        const parsed = JSON.parse(raw);
+        if (parsed?.version !== 1 || !Array.isArray(parsed.availableWords)) return null;
+        if (!hasValidWordIndex(parsed) || !Array.isArray(parsed.attempts) || !Array.isArray(parsed.musicComponents)) {
+            console.warn('Ignoring a corrupt saved game.');
+            return null;
+        }
+        return parsed as SavedGame;
+    } catch (e) {
+        console.warn('Could not read saved game:', e);
+        return null;
+    }
+}
+
+export function clearSavedGame() {
+    try {
+        localStorage.removeItem(SAVED_GAME_KEY);
+    } catch (e) {
+        console.warn('Could not clear saved game:', e);
+    }
+}
@@ -0,0 +1,53 @@
+import { type LiveMusicGenerationConfig } from '@google/genai';
+import { MusicComponentData } from './types';
+
+export type SceneSlot = 'a' | 'b';
+
+/** A snapshot of the mix: every component's weight plus the generation config. */
+export interface Scene {
+    weights: ReadonlyMap<string, number>;
+    config: LiveMusicGenerationConfig;
+}
+
+export interface SceneBlend {
+    weights: Map<string, number>;
+    config: LiveMusicGenerationConfig;
+}
+
+// Blended smoothly; topK and bpm must stay whole numbers. The seed is an identifier, so it switches instead.
+const BLENDED_FIELDS = ['temperature', 'guidance', 'topK', 'bpm', 'density', 'brightness'] as const;
+const INTEGER_FIELDS: ReadonlySet<string> = new Set(['topK', 'bpm']);
+
+export function captureScene(components: Iterable<MusicComponentData>, config: LiveMusicGenerationConfig): Scene {
+    const weights = new Map<string, number>();
+    for (const component of components) weights.set(component.promptId, component.weight);
+    return { weights, config: { ...config } };
+}
+
+/**
+ * Mixes scene A into scene B, `position` running from 0 (all A) to 1 (all B).
+ * A component stored in only one scene counts as silent in the other, so it
+ * fades in or out across the fader. Numeric settings set in both scenes are
+ * interpolated; everything else switches over at the midpoint.
+ */
+export function blendScenes(a: Scene, b: Scene, position: number): SceneBlend {
+    const t = Math.max(0, Math.min(1, position));
+    const nearer = t < 0.5 ? a : b;
+
+    const weights = new Map<string, number>();
+    for (const promptId of new Set([...a.weights.keys(), ...b.weights.keys()])) {
+        const from = a.weights.get(promptId) ?? 0;
+        const to = b.weights.get(promptId) ?? 0;
+        weights.set(promptId, from + (to - from) * t);
+    }
+
+    const config: LiveMusicGenerationConfig = { ...nearer.config };
+    for (const field of BLENDED_FIELDS) {
+        const from = a.config[field];
+        const to = b.config[field];
+        if (from === undefined || to === undefined) continue; // "Auto" on one side: nothing to blend
+        const value = from + (to - from) * t;
+        config[field] = INTEGER_FIELDS.has(field) ? Math.round(value) : value;
+    }
+    return { weights, config };
+}
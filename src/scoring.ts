@@ -0,0 +1,119 @@
+import { MatchRule } from './guessMatching';
+
+/** Running score for one game. Treated as immutable so Lit sees every change. */
+export interface ScoreState {
+    readonly score: number;
+    readonly streak: number; // Consecutive correct guesses
+    readonly bestStreak: number;
+    readonly correct: number;
+    readonly skipped: number;
+    readonly wrongGuesses: number;
+    readonly acceptedBy: Readonly<Partial<Record<MatchRule, number>>>; // Correct guesses per matching rule
+}
+
+export interface HighScoreEntry {
+    readonly score: number;
+    readonly correct: number;
+    readonly bestStreak: number;
+    readonly packName: string;
+    readonly date: string; // ISO timestamp
+}
+
+const BASE_POINTS = 100;
+const POINTS_PER_LETTER = 20;
+const MAX_TIME_BONUS = 150;
+const TIME_BONUS_WINDOW_MS = 30000; // Bonus decays to zero over this long
+const MULTIPLIER_STEP = 0.25;
+const MAX_MULTIPLIER = 3;
+
+const TIMEOUT_PENALTY = 50;
+
+/** Lenient matches are worth a little less than spelling the word exactly. */
+const MATCH_RULE_FACTORS: Record<MatchRule, number> = {
+    exact: 1,
+    diacritics: 1,
+    plural: 0.9,
+    synonym: 0.9,
+    typo: 0.75,
+};
+
+const HIGH_SCORES_KEY = 'word-music-game.high-scores';
+const MAX_HIGH_SCORES = 10;
+
+export function createScoreState(): ScoreState {
+    return { score: 0, streak: 0, bestStreak: 0, correct: 0, skipped: 0, wrongGuesses: 0, acceptedBy: {} };
+}
+
+/** The multiplier applied to the next correct guess. */
+export function getMultiplier(state: ScoreState): number {
+    return Math.min(1 + state.streak * MULTIPLIER_STEP, MAX_MULTIPLIER);
+}
+
+/** Points for a correct guess before the streak multiplier. */
+export function getBasePoints(word: string, solveTimeMs: number): number {
+    const timeFactor = Math.max(0, 1 - solveTimeMs / TIME_BONUS_WINDOW_MS);
+    return BASE_POINTS + word.length * POINTS_PER_LETTER + Math.round(timeFactor * MAX_TIME_BONUS);
+}
+
+export function scoreCorrectGuess(state: ScoreState, word: string, solveTimeMs: number, rule: MatchRule = 'exact'): { state: ScoreState, points: number } {
+    const points = Math.round(getBasePoints(word, solveTimeMs) * getMultiplier(state) * MATCH_RULE_FACTORS[rule]);
+    const streak = state.streak + 1;
+    return {
+        points,
+        state: {
+            ...state,
+            score: state.score + points,
+            streak,
+            bestStreak: Math.max(state.bestStreak, streak),
+            correct: state.correct + 1,
+            acceptedBy: { ...state.acceptedBy, [rule]: (state.acceptedBy[rule] ?? 0) + 1 },
+        },
+    };
+}
+
+export function scoreSkip(state: ScoreState): ScoreState {
+    return { ...state, streak: 0, skipped: state.skipped + 1 };
+}
+
+/** Breaks the streak and deducts `penalty` points, never dropping below zero. */
+export function scoreWrongGuess(state: ScoreState, penalty: number = 0): ScoreState {
+    return {
+        ...state,
+        score: state.score - Math.min(penalty, state.score),
+        streak: 0,
+        wrongGuesses: state.wrongGuesses + 1,
+    };
+}
+
+/** A timed round that ran out counts as a skip and costs points. */
+export function scoreTimeout(state: ScoreState): { state: ScoreState, penalty: number } {
+    const penalty = Math.min(TIMEOUT_PENALTY, state.score);
+    return { penalty, state: { ...scoreSkip(state), score: state.score - penalty } };
+}
+
+export function loadHighScores(): HighScoreEntry[] {
+    try {
+        const raw = localStorage.getItem(HIGH_SCORES_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+        console.warn('Could not read high scores:', e);
+        return [];
+    }
+}
+
+/**
+ * Records a finished game and returns the updated table together with the
+ * entry's 0-based rank, or -1 if it did not make the table.
+ */
+export function saveHighScore(entry: HighScoreEntry): { highScores: HighScoreEntry[], rank: number } {
+    const highScores = [...loadHighScores(), entry]
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_HIGH_SCORES);
+    try {
+        localStorage.setItem(HIGH_SCORES_KEY, JSON.stringify(highScores));
+    } catch (e) {
+        console.warn('Could not save high scores:', e);
+    }
+    return { highScores, rank: highScores.indexOf(entry) };
+}
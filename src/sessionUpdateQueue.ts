@@ -0,0 +1,61 @@
+import { MusicSession } from './musicSession';
+
+/** The kinds of state pushed to the session; each kind holds at most one pending update. */
+export type SessionUpdateKind = 'prompts' | 'config';
+
+type SendUpdate = (session: MusicSession) => Promise<void>;
+
+/**
+ * Delivers prompt and config updates to the music session one request at a
+ * time. A new update replaces any pending update of the same kind, so a burst
+ * of slider changes collapses into a single request, but the latest value is
+ * always sent once the request in flight has finished. Requests are spaced at
+ * least `minIntervalMs` apart.
+ */
+export class SessionUpdateQueue {
+    private pending = new Map<SessionUpdateKind, SendUpdate>();
+    private draining = false;
+    private lastSentAt = -Infinity;
+
+    constructor(
+        private readonly getSession: () => MusicSession | undefined,
+        private readonly onError: (kind: SessionUpdateKind, error: unknown) => void,
+        private readonly minIntervalMs = 200,
+    ) { }
+
+    /** Queues `send`, which reads the state to send when it runs rather than when it is queued. */
+    request(kind: SessionUpdateKind, send: SendUpdate) {
+        this.pending.set(kind, send);
+        if (!this.draining) this.drain();
+    }
+
+    /** Drops anything not yet sent, e.g. when the session is about to be replayed from scratch. */
+    clear() {
+        this.pending.clear();
+    }
+
+    private async drain() {
+        this.draining = true;
+        try {
+            while (this.pending.size > 0) {
+                const wait = this.lastSentAt + this.minIntervalMs - performance.now();
+                if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+
+                // Taken only now, so updates that arrived while waiting are coalesced.
+                const [kind, send] = this.pending.entries().next().value as [SessionUpdateKind, SendUpdate];
+                this.pending.delete(kind);
+                const session = this.getSession();
+                if (!session) continue; // A new session is sent the full state when it connects.
+
+                this.lastSentAt = performance.now();
+                try {
+                    await send(session);
+                } catch (e) {
+                    this.onError(kind, e);
+                }
+            }
+        } finally {
+            this.draining = false;
+        }
+    }
+}
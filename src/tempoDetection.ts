@@ -0,0 +1,105 @@
+export const MIN_BPM = 60;
+export const MAX_BPM = 180;
+
+const MAX_ONSETS = 9; // Estimate from the last eight intervals
+const OUTLIER_TOLERANCE = 0.25; // Intervals further than this fraction from the median are ignored
+
+/**
+ * Estimates a tempo from onset times in milliseconds, or null with fewer than
+ * three onsets. Uses the median interval to reject stray hits, then folds the
+ * result into the playable BPM range by doubling or halving.
+ */
+export function estimateBpm(onsets: readonly number[]): number | null {
+    if (onsets.length < 3) return null;
+    const intervals: number[] = [];
+    for (let i = 1; i < onsets.length; i++) {
+        intervals.push(onsets[i] - onsets[i - 1]);
+    }
+    const sorted = [...intervals].sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    if (median <= 0) return null;
+    const kept = intervals.filter(interval => Math.abs(interval - median) <= median * OUTLIER_TOLERANCE);
+    const mean = kept.reduce((sum, interval) => sum + interval, 0) / kept.length;
+
+    let bpm = 60000 / mean;
+    while (bpm < MIN_BPM) bpm *= 2;
+    while (bpm > MAX_BPM) bpm /= 2;
+    return Math.round(bpm);
+}
+
+/** Collects taps and estimates their tempo. A pause longer than `resetAfterMs` starts over. */
+export class TapTempo {
+    private onsets: number[] = [];
+
+    constructor(private readonly resetAfterMs: number = 2000) { }
+
+    get count(): number {
+        return this.onsets.length;
+    }
+
+    /** Records a tap and returns the current estimate, if there is one yet. */
+    tap(timeMs: number = performance.now()): number | null {
+        const last = this.onsets[this.onsets.length - 1];
+        if (last !== undefined && timeMs - last > this.resetAfterMs) {
+            this.onsets = [];
+        }
+        this.onsets.push(timeMs);
+        if (this.onsets.length > MAX_ONSETS) this.onsets.shift();
+        return estimateBpm(this.onsets);
+    }
+
+    reset() {
+        this.onsets = [];
+    }
+}
+
+export interface OnsetDetectorOptions {
+    threshold: number; // Energy over the running average that counts as an onset
+    minEnergy: number; // Ignores anything quieter than this, e.g. room noise
+    refractoryMs: number; // Minimum gap between two onsets
+}
+
+const DEFAULT_ONSET_OPTIONS: OnsetDetectorOptions = {
+    threshold: 3,
+    minEnergy: 0.0005,
+    refractoryMs: 120,
+};
+
+const AVERAGE_SMOOTHING = 0.05;
+
+/**
+ * Energy-based onset detector tuned for claps and taps. Each frame's energy is
+ * measured on the sample-to-sample difference, a cheap high-pass that favours
+ * sharp transients over sustained bass, and compared with a running average.
+ */
+export class OnsetDetector {
+    private readonly options: OnsetDetectorOptions;
+    private average = 0;
+    private lastOnset = -Infinity;
+
+    constructor(options: Partial<OnsetDetectorOptions> = {}) {
+        this.options = { ...DEFAULT_ONSET_OPTIONS, ...options };
+    }
+
+    /** Feeds one frame of samples captured at `timeMs`. Returns true if it holds an onset. */
+    process(samples: Float32Array, timeMs: number): boolean {
+        let energy = 0;
+        for (let i = 1; i < samples.length; i++) {
+            const diff = samples[i] - samples[i - 1];
+            energy += diff * diff;
+        }
+        energy /= Math.max(1, samples.length - 1);
+
+        const isOnset = energy > this.options.minEnergy
+            && energy > this.average * this.options.threshold
+            && timeMs - this.lastOnset >= this.options.refractoryMs;
+        if (isOnset) this.lastOnset = timeMs;
+        this.average += (energy - this.average) * AVERAGE_SMOOTHING;
+        return isOnset;
+    }
+
+    reset() {
+        this.average = 0;
+        this.lastOnset = -Infinity;
+    }
+}
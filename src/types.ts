@@ -1,8 +1,64 @@
 export interface MusicComponentData {
     readonly promptId: string; // Unique ID for the component
     readonly color: string;
-    text: string; // The guessed word
+    text: string; // The guessed word, as displayed
+    prompt: string; // The text sent to the music session for this component
     weight: number; // Controlled by the slider
 }
 
 export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
+
+export type WordDifficulty = 'easy' | 'medium' | 'hard';
+
+/** One guessable word from a word pack. */
+export interface WordEntry {
+    readonly answer: string; // Uppercase word the player must guess
+    readonly category: string;
+    readonly difficulty: WordDifficulty;
+    readonly prompt?: string; // Richer music prompt, defaults to the answer
+    readonly clue?: string; // Text used by clue puzzles
+    readonly synonyms?: readonly string[]; // Other guesses accepted for this word
+}
+
+/** A named collection of words, loaded from JSON. */
+export interface WordPack {
+    readonly id: string;
+    readonly name: string;
+    readonly description?: string;
+    readonly words: readonly WordEntry[];
+}
+
+export type GameMode = 'classic' | 'daily';
+
+export type DifficultyLevel = 'easy' | 'normal' | 'hard';
+
+/** Game rules selected at the start of a game. */
+export interface DifficultyPreset {
+    readonly label: string;
+    readonly minWordLength: number;
+    readonly maxWordLength: number;
+    readonly hints: number; // Letter reveals available per game
+    readonly roundBars: number; // Bars allowed per word in timed mode
+    readonly wrongGuessPenalty: number; // Points lost per wrong guess, 0 for none
+    readonly maxAttempts: number; // Guesses allowed per word before it is given up
+    readonly maxEditDistance: number; // Typos tolerated in a guess, 0 for exact spelling
+}
+
+export type LetterStatus = 'correct' | 'present' | 'absent';
+
+/** A wrong guess with per-letter feedback against the hidden word. */
+export interface GuessAttempt {
+    readonly guess: string;
+    readonly statuses: readonly LetterStatus[];
+}
+
+export type PuzzleType = 'anagram' | 'masked' | 'clue';
+
+/** A single round's view of the hidden word. */
+export interface Puzzle {
+    readonly type: PuzzleType;
+    readonly answer: string; // Never rendered directly
+    readonly scrambled: string; // Letters of the answer in shuffled order (anagram rounds)
+    readonly clue: string; // Text clue (clue rounds)
+    readonly revealed: readonly number[]; // Indices of letters shown to the player
+}
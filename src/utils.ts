@@ -3,6 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import { Blob } from '@google/genai';
+import { RandomSource } from './random';
 
 function encode(bytes: Uint8Array) {
     let binary = '';
@@ -37,50 +38,28 @@ function createBlob(data: Float32Array): Blob {
     };
 }
 
-async function decodeAudioData(
-    data: Uint8Array,
-    ctx: AudioContext,
-    sampleRate: number,
-    numChannels: number,
-): Promise<AudioBuffer> {
-    const buffer = ctx.createBuffer(
-        numChannels,
-        data.length / 2 / numChannels,
-        sampleRate,
-    );
-
-    const dataInt16 = new Int16Array(data.buffer);
-    const l = dataInt16.length;
-    const dataFloat32 = new Float32Array(l);
-    for (let i = 0; i < l; i++) {
-        dataFloat32[i] = dataInt16[i] / 32768.0;
-    }
-    // Extract interleaved channels
-    if (numChannels === 0) {
-        buffer.copyToChannel(dataFloat32, 0);
-    } else {
-        for (let i = 0; i < numChannels; i++) {
-            const channel = dataFloat32.filter(
-                (_, index) => index % numChannels === i,
-            );
-            buffer.copyToChannel(channel, i);
+/** Splits interleaved Int16 PCM into one Float32Array per channel in a single pass. */
+function decodePcm16(data: Uint8Array, numChannels: number): Float32Array[] {
+    const channelCount = Math.max(1, numChannels);
+    const dataInt16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
+    const frames = Math.floor(dataInt16.length / channelCount);
+    const channels = Array.from({ length: channelCount }, () => new Float32Array(frames));
+    for (let frame = 0, i = 0; frame < frames; frame++) {
+        for (let c = 0; c < channelCount; c++, i++) {
+            channels[c][frame] = dataInt16[i] / 32768.0;
         }
     }
-
-    return buffer;
+    return channels;
 }
 
-/** Throttles a callback to be called at most once per `freq` milliseconds. */
-function throttle(func: (...args: any[]) => void, delay: number) {
-    let lastCall = 0;
-    return (...args: any[]) => {
-        const now = Date.now();
-        const timeSinceLastCall = now - lastCall;
-        if (timeSinceLastCall >= delay) {
-            func(...args);
-            lastCall = now;
-        }
-    };
+/** Returns a shuffled copy of `items` (Fisher-Yates). */
+function shuffle<T>(items: readonly T[], random: RandomSource = Math.random): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
 }
 
-export { createBlob, decode, decodeAudioData, encode, throttle };
+export { createBlob, decode, decodePcm16, encode, shuffle };
@@ -0,0 +1,89 @@
+/** RIFF INFO tags written into exported WAV files. */
+export interface WavMetadata {
+    readonly title?: string; // INAM
+    readonly comment?: string; // ICMT
+    readonly software?: string; // ISFT
+    readonly date?: string; // ICRD
+}
+
+const INFO_TAGS: Record<keyof WavMetadata, string> = {
+    title: 'INAM',
+    comment: 'ICMT',
+    software: 'ISFT',
+    date: 'ICRD',
+};
+
+function writeAscii(view: DataView, offset: number, text: string) {
+    for (let i = 0; i < text.length; i++) {
+        view.setUint8(offset + i, text.charCodeAt(i));
+    }
+}
+
+/** INFO sub-chunks as [id, null-terminated UTF-8 bytes] pairs; odd lengths get a pad byte. */
+function encodeInfoEntries(metadata: WavMetadata): [string, Uint8Array][] {
+    const encoder = new TextEncoder();
+    return (Object.keys(INFO_TAGS) as (keyof WavMetadata)[])
+        .filter(key => metadata[key])
+        .map(key => {
+            const text = encoder.encode(metadata[key]!);
+            const bytes = new Uint8Array(text.length + 1); // Trailing NUL
+            bytes.set(text);
+            return [INFO_TAGS[key], bytes];
+        });
+}
+
+/** Encodes planar float channels as a 16-bit PCM WAV file with an optional LIST/INFO chunk. */
+export function encodeWav(channels: Float32Array[], sampleRate: number, metadata: WavMetadata = {}): Blob {
+    const numChannels = channels.length;
+    const frames = channels[0]?.length ?? 0;
+    const bytesPerSample = 2;
+    const dataSize = frames * numChannels * bytesPerSample;
+
+    const infoEntries = encodeInfoEntries(metadata);
+    const infoSize = infoEntries.reduce((sum, [, bytes]) => sum + 8 + bytes.length + (bytes.length % 2), 0);
+    const listSize = infoEntries.length > 0 ? 8 + 4 + infoSize : 0;
+
+    const buffer = new ArrayBuffer(44 + listSize + dataSize);
+    const view = new DataView(buffer);
+    let offset = 0;
+
+    writeAscii(view, offset, 'RIFF');
+    view.setUint32(offset + 4, buffer.byteLength - 8, true);
+    writeAscii(view, offset + 8, 'WAVE');
+    offset += 12;
+
+    writeAscii(view, offset, 'fmt ');
+    view.setUint32(offset + 4, 16, true);
+    view.setUint16(offset + 8, 1, true); // PCM
+    view.setUint16(offset + 10, numChannels, true);
+    view.setUint32(offset + 12, sampleRate, true);
+    view.setUint32(offset + 16, sampleRate * numChannels * bytesPerSample, true);
+    view.setUint16(offset + 20, numChannels * bytesPerSample, true);
+    view.setUint16(offset + 22, 8 * bytesPerSample, true);
+    offset += 24;
+
+    if (listSize > 0) {
+        writeAscii(view, offset, 'LIST');
+        view.setUint32(offset + 4, listSize - 8, true);
+        writeAscii(view, offset + 8, 'INFO');
+        offset += 12;
+        infoEntries.forEach(([id, bytes]) => {
+            writeAscii(view, offset, id);
+            view.setUint32(offset + 4, bytes.length, true);
+            new Uint8Array(buffer, offset + 8, bytes.length).set(bytes);
+            offset += 8 + bytes.length + (bytes.length % 2);
+        });
+    }
+
+    writeAscii(view, offset, 'data');
+    view.setUint32(offset + 4, dataSize, true);
+    offset += 8;
+    for (let i = 0; i < frames; i++) {
+        for (let c = 0; c < numChannels; c++) {
+            const sample = Math.max(-1, Math.min(1, channels[c][i]));
+            view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
+            offset += bytesPerSample;
+        }
+    }
+    return new Blob([buffer], { type: 'audio/wav' });
+}
@@ -0,0 +1,117 @@
+export type TransitionUnit = 'seconds' | 'bars';
+
+/** How long weight changes take to ramp, and whether slider moves glide too. */
+export interface TransitionSettings {
+    amount: number;
+    unit: TransitionUnit;
+    glide: boolean;
+}
+
+export const DEFAULT_TRANSITION_SETTINGS: TransitionSettings = { amount: 2, unit: 'seconds', glide: false };
+
+const TRANSITION_SETTINGS_KEY = 'word-music-game.transitions';
+
+export function loadTransitionSettings(): TransitionSettings {
+    try {
+        const raw = localStorage.getItem(TRANSITION_SETTINGS_KEY);
+        const parsed = raw ? JSON.parse(raw) : null;
+        return { ...DEFAULT_TRANSITION_SETTINGS, ...(parsed && typeof parsed === 'object' ? parsed : {}) };
+    } catch (e) {
+        console.warn('Could not read transition settings:', e);
+        return { ...DEFAULT_TRANSITION_SETTINGS };
+    }
+}
+
+export function saveTransitionSettings(settings: TransitionSettings) {
+    try {
+        localStorage.setItem(TRANSITION_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.warn('Could not save transition settings:', e);
+    }
+}
+
+interface Transition {
+    from: number;
+    to: number;
+    startedAt: number;
+    durationMs: number;
+    onDone?: () => void;
+}
+
+/** Ease-in-out so ramps start and land gently. */
+function smoothstep(t: number): number {
+    return t * t * (3 - 2 * t);
+}
+
+/**
+ * Ramps component weights toward their targets. Every `stepMs` it reports the
+ * interpolated weights of all running transitions in one batch, so the caller
+ * can send a single `setWeightedPrompts` update per step.
+ */
+export class WeightTransitionEngine {
+    private transitions = new Map<string, Transition>();
+    private intervalId: number | undefined;
+
+    constructor(
+        private readonly onStep: (weights: ReadonlyMap<string, number>) => void,
+        private readonly stepMs: number = 250,
+    ) { }
+
+    get active(): boolean {
+        return this.transitions.size > 0;
+    }
+
+    /** The weight a running transition is heading for, if any. */
+    target(promptId: string): number | undefined {
+        return this.transitions.get(promptId)?.to;
+    }
+
+    /** Starts ramping `promptId` from `from` to `to`, replacing any transition already running for it. */
+    start(promptId: string, from: number, to: number, durationMs: number, onDone?: () => void) {
+        this.transitions.delete(promptId);
+        if (durationMs <= 0 || Math.abs(to - from) < 0.001) {
+            this.onStep(new Map([[promptId, to]]));
+            onDone?.();
+            this.stopIfIdle();
+            return;
+        }
+        this.transitions.set(promptId, { from, to, startedAt: performance.now(), durationMs, onDone });
+        if (this.intervalId === undefined) {
+            this.intervalId = window.setInterval(() => this.tick(), this.stepMs);
+        }
+    }
+
+    /** Stops a transition where it is, without calling its `onDone`. */
+    cancel(promptId: string) {
+        this.transitions.delete(promptId);
+        this.stopIfIdle();
+    }
+
+    clear() {
+        this.transitions.clear();
+        this.stopIfIdle();
+    }
+
+    private tick() {
+        const now = performance.now();
+        const weights = new Map<string, number>();
+        const finished: Transition[] = [];
+        this.transitions.forEach((transition, promptId) => {
+            const progress = Math.min(1, (now - transition.startedAt) / transition.durationMs);
+            weights.set(promptId, transition.from + (transition.to - transition.from) * smoothstep(progress));
+            if (progress >= 1) {
+                finished.push(transition);
+                this.transitions.delete(promptId);
+            }
+        });
+        this.onStep(weights);
+        finished.forEach(transition => transition.onDone?.());
+        this.stopIfIdle();
+    }
+
+    private stopIfIdle() {
+        if (this.transitions.size > 0 || this.intervalId === undefined) return;
+        window.clearInterval(this.intervalId);
+        this.intervalId = undefined;
+    }
+}
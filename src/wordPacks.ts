@@ -0,0 +1,68 @@
+import { WordDifficulty, WordEntry, WordPack } from './types';
+
+const DIFFICULTIES: readonly WordDifficulty[] = ['easy', 'medium', 'hard'];
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim() !== '';
+}
+
+function parseWordEntry(raw: unknown, index: number): WordEntry {
+    if (typeof raw !== 'object' || raw === null) {
+        throw new Error(`Word #${index + 1} is not an object.`);
+    }
+    const entry = raw as Record<string, unknown>;
+    if (!isNonEmptyString(entry.answer)) {
+        throw new Error(`Word #${index + 1} is missing an answer.`);
+    }
+    const answer = entry.answer.trim().toUpperCase();
+    if (!isNonEmptyString(entry.category)) {
+        throw new Error(`Word "${answer}" is missing a category.`);
+    }
+    if (!DIFFICULTIES.includes(entry.difficulty as WordDifficulty)) {
+        throw new Error(`Word "${answer}" has an invalid difficulty: ${String(entry.difficulty)}`);
+    }
+    return {
+        answer,
+        category: entry.category.trim(),
+        difficulty: entry.difficulty as WordDifficulty,
+        prompt: isNonEmptyString(entry.prompt) ? entry.prompt.trim() : undefined,
+        clue: isNonEmptyString(entry.clue) ? entry.clue.trim() : undefined,
+        synonyms: Array.isArray(entry.synonyms)
+            ? entry.synonyms.filter(isNonEmptyString).map(s => s.trim().toUpperCase())
+            : undefined,
+    };
+}
+
+/** Validates untrusted JSON and returns it as a word pack. Throws on malformed input. */
+export function parseWordPack(raw: unknown): WordPack {
+    if (typeof raw !== 'object' || raw === null) {
+        throw new Error('Word pack must be a JSON object.');
+    }
+    const pack = raw as Record<string, unknown>;
+    if (!isNonEmptyString(pack.id) || !isNonEmptyString(pack.name)) {
+        throw new Error('Word pack needs an "id" and a "name".');
+    }
+    if (!Array.isArray(pack.words) || pack.words.length === 0) {
+        throw new Error(`Word pack "${pack.name}" has no words.`);
+    }
+    return {
+        id: pack.id.trim(),
+        name: pack.name.trim(),
+        description: isNonEmptyString(pack.description) ? pack.description.trim() : undefined,
+        words: pack.words.map(parseWordEntry),
+    };
+}
+
+/** Fetches and validates a word pack. Relative URLs resolve against the page. */
+export async function loadWordPack(url: string): Promise<WordPack> {
+    const response = await fetch(new URL(url, document.baseURI));
+    if (!response.ok) {
+        throw new Error(`Could not load word pack (${response.status} ${response.statusText}).`);
+    }
+    return parseWordPack(await response.json());
+}
+
+/** The text sent to the music session when this word becomes a component. */
+export function getMusicPrompt(entry: WordEntry): string {
+    return entry.prompt ?? entry.answer;
+}